@@ -0,0 +1,10 @@
+-- =============================================================================
+-- edu.xaostech.io - Exercise Retention
+-- =============================================================================
+-- Every exercise served by /generate is persisted so it can be graded later.
+-- expires_at drives purging; exercises with recorded submissions are kept.
+-- =============================================================================
+
+ALTER TABLE exercises ADD COLUMN expires_at DATETIME;
+
+CREATE INDEX IF NOT EXISTS idx_exercises_expires ON exercises(expires_at);
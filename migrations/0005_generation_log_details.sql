@@ -0,0 +1,19 @@
+-- =============================================================================
+-- edu.xaostech.io - Generation Log Details
+-- =============================================================================
+-- Every model call in the fallback chain is logged in generation_logs, plus one
+-- row per non-model tier (pool, database, static-bank, fallback) that served
+-- exercises. Rows from one request share generation_id.
+-- =============================================================================
+
+ALTER TABLE generation_logs ADD COLUMN generation_id TEXT;
+ALTER TABLE generation_logs ADD COLUMN subject TEXT;
+ALTER TABLE generation_logs ADD COLUMN attempt_kind TEXT;      -- single | batch | repair | pool | database | static-bank | fallback
+ALTER TABLE generation_logs ADD COLUMN parse_success BOOLEAN;
+ALTER TABLE generation_logs ADD COLUMN exercise_count INTEGER;
+ALTER TABLE generation_logs ADD COLUMN failure_reason TEXT;    -- rate-limited | model-unavailable | empty-response | invalid-output | error
+ALTER TABLE generation_logs ADD COLUMN served_by_tier TEXT;    -- lowest tier that served the request
+
+CREATE INDEX IF NOT EXISTS idx_logs_generation ON generation_logs(generation_id);
+CREATE INDEX IF NOT EXISTS idx_logs_subject ON generation_logs(subject);
+CREATE INDEX IF NOT EXISTS idx_logs_served_by ON generation_logs(served_by_tier);
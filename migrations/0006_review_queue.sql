@@ -0,0 +1,29 @@
+-- =============================================================================
+-- edu.xaostech.io - Teacher Review Queue
+-- =============================================================================
+-- Long answers and proofs the rubric grader could not score with confidence
+-- wait here until a teacher grades them (POST /api/admin/reviews/:id/grade).
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS review_queue (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    exercise_id TEXT NOT NULL,
+    user_id TEXT,                          -- signed-in learner (NULL when anonymous)
+    learner_key TEXT NOT NULL,             -- attempt-state key (user or IP)
+    answer_json TEXT NOT NULL,
+    hints_used INTEGER DEFAULT 0,
+    time_taken_seconds INTEGER DEFAULT 0,
+    previous_attempts INTEGER DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'pending',  -- pending | graded
+    submitted_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    score INTEGER,
+    passed BOOLEAN,
+    points_earned INTEGER,
+    feedback TEXT,
+    reviewed_by TEXT,
+    reviewed_at DATETIME,
+    FOREIGN KEY (exercise_id) REFERENCES exercises(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_status ON review_queue(status, submitted_at);
+CREATE INDEX IF NOT EXISTS idx_reviews_exercise ON review_queue(exercise_id);
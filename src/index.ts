@@ -8,20 +8,56 @@
  */
 
 import { Hono } from 'hono';
+import type { Context } from 'hono';
 import { cors } from 'hono/cors';
 import { logger } from 'hono/logger';
 import { timing } from 'hono/timing';
 import { secureHeaders } from 'hono/secure-headers';
+import { streamSSE } from 'hono/streaming';
 
 import type {
   Env,
   GenerateExerciseRequest,
+  GenerateExerciseResponse,
   SubmissionRequest,
   Subject,
   DifficultyLevel,
 } from './types/exercise';
 import { SUBJECT_CONFIGS } from './types/exercise';
-import { generateExercise, validateAnswer } from './lib/generator';
+import { generateExercise, gradeSubmission, scoreReviewedAnswer } from './lib/generator';
+import type { GenerationContext } from './lib/generator';
+import { getExercise, purgeExpiredExercises } from './lib/exercise-store';
+import { queryGenerationLogs, summarizeGenerationLogs } from './lib/generation-logs';
+import { getBudgetReport } from './lib/neuron-budget';
+import {
+  attemptElapsedSeconds,
+  attemptLearnerKey,
+  attemptsExhausted,
+  attemptSummary,
+  getAttemptState,
+  LEARNER_COOKIE,
+  LEARNER_COOKIE_MAX_AGE,
+  learnerIdFromCookie,
+  recordAttempt,
+  recordAttemptStarted,
+  recordHintsRevealed,
+} from './lib/attempt-state';
+import {
+  attemptTokenRequired,
+  attemptTokensEnabled,
+  issueAttemptToken,
+  redeemAttemptToken,
+} from './lib/attempt-tokens';
+import { recordSubmission } from './lib/progress-store';
+import { completeReview, getReview, listReviews, queueForReview } from './lib/review-queue';
+import type { ReviewStatus } from './lib/review-queue';
+import {
+  getSolutionRelease,
+  releaseSolution,
+  revealDecision,
+  toStudentExercise,
+  withholdAnswers,
+} from './lib/student-view';
 import {
   parentalControlsMiddleware,
   getSessionWithControls,
@@ -86,6 +122,82 @@ app.use('/generate/*', async (c, next) => {
   await next();
 });
 
+/**
+ * Generation context for the current request: learner identity and background work
+ */
+async function getGenerationContext(c: Context<{ Bindings: Env }>): Promise<GenerationContext> {
+  const user = await getSessionWithControls(c);
+  return {
+    userId: user?.id,
+    isChild: user?.isChild,
+    waitUntil: (promise) => c.executionCtx.waitUntil(promise),
+  };
+}
+
+/**
+ * Key for the learner's attempt state: the session user, or for anonymous learners the id in
+ * the learner cookie, which is issued on their first request
+ */
+function learnerKeyFor(c: Context<{ Bindings: Env }>, userId?: string): string {
+  if (userId) return attemptLearnerKey(userId, '');
+
+  const existing = learnerIdFromCookie(c.req.header('Cookie'));
+  if (existing) return attemptLearnerKey(undefined, existing);
+
+  const learnerId = crypto.randomUUID();
+  c.header(
+    'Set-Cookie',
+    `${LEARNER_COOKIE}=${learnerId}; Path=/; Max-Age=${LEARNER_COOKIE_MAX_AGE}; HttpOnly; Secure; SameSite=Lax`,
+    { append: true }
+  );
+  return attemptLearnerKey(undefined, learnerId);
+}
+
+/**
+ * Learner key for the session user, or the anonymous learner cookie
+ */
+async function getLearnerKey(c: Context<{ Bindings: Env }>): Promise<string> {
+  const user = await getSessionWithControls(c);
+  return learnerKeyFor(c, user?.id);
+}
+
+/**
+ * Attempt token for an exercise delivered to the learner. The first one starts the attempt
+ * clock in the attempt state; later ones keep measuring from it.
+ */
+async function issueLearnerToken(env: Env, learnerKey: string, exerciseId: string, userId?: string) {
+  if (!attemptTokensEnabled(env)) return null;
+  const state = await getAttemptState(env, learnerKey, exerciseId);
+  const started = await recordAttemptStarted(env, learnerKey, exerciseId, state);
+  return issueAttemptToken(env, exerciseId, userId, started.startedAt);
+}
+
+/**
+ * Generated exercises as sent to learners (student view), with an attempt token for each
+ * so /validate can measure time on task
+ */
+async function toLearnerResponse(c: Context<{ Bindings: Env }>, response: GenerateExerciseResponse, userId?: string) {
+  const learnerKey = learnerKeyFor(c, userId);
+  const attemptTokens: Record<string, string> = {};
+  for (const exercise of response.exercises) {
+    const token = await issueLearnerToken(c.env, learnerKey, exercise.id, userId);
+    if (token) attemptTokens[exercise.id] = token;
+  }
+  return {
+    ...response,
+    exercises: response.exercises.map(toStudentExercise),
+    ...(Object.keys(attemptTokens).length > 0 ? { attemptTokens } : {}),
+  };
+}
+
+/**
+ * Session user when they are an owner or admin, otherwise null
+ */
+async function getAdminUser(c: Context<{ Bindings: Env }>) {
+  const user = await getSessionWithControls(c);
+  return user && (user.role === 'owner' || user.role === 'admin') ? user : null;
+}
+
 // =============================================================================
 // LANDING PAGE
 // =============================================================================
@@ -465,6 +577,9 @@ app.get('/learn/:subject', async (c) => {
 
   const emoji = subjectEmojis[subject] || '📖';
 
+  // Exercise types the page can render
+  const playableTypes = (['multiple-choice', 'ordering', 'conjugation'] as const).filter(t => config.supportedTypes.includes(t));
+
   const html = `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -607,6 +722,15 @@ app.get('/learn/:subject', async (c) => {
       background: rgba(255,107,107,0.05);
     }
     .question { font-size: 1.2rem; margin-bottom: 1.5rem; }
+    .verified-badge {
+      display: none;
+      font-size: 0.8rem;
+      color: var(--kid-green);
+      border: 1px solid var(--kid-green);
+      border-radius: 999px;
+      padding: 0.1rem 0.6rem;
+      margin-bottom: 0.75rem;
+    }
     .options { display: flex; flex-direction: column; gap: 0.75rem; }
     .option {
       padding: 1rem;
@@ -620,6 +744,47 @@ app.get('/learn/:subject', async (c) => {
     .option.selected { border-color: var(--secondary); background: rgba(59,130,246,0.1); }
     .option.correct { border-color: var(--kid-green); background: rgba(52,211,153,0.2); }
     .option.wrong { border-color: var(--kid-primary); background: rgba(255,107,107,0.2); }
+    .order-list { list-style: none; display: flex; flex-direction: column; gap: 0.5rem; }
+    .order-item {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      padding: 0.75rem 1rem;
+      background: var(--bg);
+      border: 2px solid #333;
+      border-radius: 10px;
+      cursor: grab;
+    }
+    .order-item.dragging { opacity: 0.5; border-color: var(--secondary); }
+    .order-item.correct { border-color: var(--kid-green); background: rgba(52,211,153,0.2); }
+    .order-item.wrong { border-color: var(--kid-primary); background: rgba(255,107,107,0.2); }
+    .order-item .handle { color: var(--muted); }
+    .order-item .text { flex: 1; }
+    .order-item .move-btn {
+      background: none;
+      border: 1px solid #333;
+      border-radius: 6px;
+      color: var(--text);
+      cursor: pointer;
+      padding: 0.1rem 0.5rem;
+    }
+    .order-check { margin-top: 1rem; }
+    .conj-table { width: 100%; border-collapse: separate; border-spacing: 0 0.5rem; }
+    .conj-table th { text-align: right; padding-right: 1rem; color: var(--muted); font-weight: 500; width: 35%; }
+    .conj-table input {
+      width: 100%;
+      padding: 0.6rem 0.8rem;
+      background: var(--bg);
+      border: 2px solid #333;
+      border-radius: 10px;
+      color: var(--text);
+      font-size: 1rem;
+    }
+    .conj-table input:focus { outline: none; border-color: var(--secondary); }
+    .conj-table tr.correct input { border-color: var(--kid-green); background: rgba(52,211,153,0.2); }
+    .conj-table tr.close input { border-color: #f59e0b; background: rgba(245,158,11,0.15); }
+    .conj-table tr.wrong input { border-color: var(--kid-primary); background: rgba(255,107,107,0.2); }
+    .conj-table .expected { display: block; font-size: 0.8rem; color: #f59e0b; margin-top: 0.25rem; }
     .feedback {
       margin-top: 1.5rem;
       padding: 1rem;
@@ -677,6 +842,7 @@ app.get('/learn/:subject', async (c) => {
     
     <div class="exercise-container" id="exerciseContainer">
       <div class="exercise-card" id="exerciseCard">
+        <span class="verified-badge" id="verifiedBadge" title="A second AI solved this exercise and agreed with the answer">✓ Answer checked</span>
         <div class="question" id="question"></div>
         <div class="options" id="options"></div>
         <div class="feedback" id="feedback"></div>
@@ -710,6 +876,43 @@ app.get('/learn/:subject', async (c) => {
       });
     });
     
+    // Exercises received from the stream that have not been shown yet
+    let exerciseQueue = [];
+    let attemptToken = null;
+    
+    function showExercise(exercise) {
+      currentExercise = exercise;
+      renderExercise(exercise);
+      document.getElementById('exerciseContainer').style.display = 'block';
+      startAttempt(exercise);
+    }
+    
+    // Time on task is measured by the server from the attempt token
+    async function startAttempt(exercise) {
+      attemptToken = null;
+      try {
+        const res = await fetch('/attempts/start', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ exerciseId: exercise.id }),
+        });
+        const data = await res.json();
+        if (res.ok && currentExercise === exercise) attemptToken = data.attemptToken;
+      } catch (err) {
+        // Without a token the server times the attempt from its own records
+      }
+    }
+    
+    function parseSSE(raw) {
+      let event = 'message';
+      let data = '';
+      raw.split('\\n').forEach(line => {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data += line.slice(5).trim();
+      });
+      return { event, data: data ? JSON.parse(data) : null };
+    }
+    
     document.getElementById('generateBtn').addEventListener('click', async () => {
       if (!selectedCategory) {
         alert('Please select a topic first!');
@@ -719,27 +922,59 @@ app.get('/learn/:subject', async (c) => {
       const btn = document.getElementById('generateBtn');
       btn.disabled = true;
       btn.textContent = '⏳ Creating...';
+      exerciseQueue = [];
+      let shown = false;
       
       try {
-        const res = await fetch('/generate', {
+        const res = await fetch('/generate/stream', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             subject: '${subject}',
             topic: selectedCategory,
             difficulty: selectedDifficulty,
-            types: ['multiple-choice'],
-            count: 1,
+            types: ${JSON.stringify(playableTypes)},
+            count: 5,
+            options: { verifyAnswers: ${isChild ? 'true' : 'false'} },
           }),
         });
         
-        const data = await res.json();
+        if (!res.ok || !res.body) {
+          throw new Error('Could not generate exercise. Please try again!');
+        }
         
-        if (data.exercises && data.exercises.length > 0) {
-          currentExercise = data.exercises[0];
-          renderExercise(currentExercise);
-          document.getElementById('exerciseContainer').style.display = 'block';
-        } else {
+        // Show the first exercise as soon as it arrives; queue the rest for "Next"
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+          
+          let boundary;
+          while ((boundary = buffer.indexOf('\\n\\n')) !== -1) {
+            const { event, data } = parseSSE(buffer.slice(0, boundary));
+            buffer = buffer.slice(boundary + 2);
+            
+            if (event === 'exercise') {
+              if (!shown) {
+                shown = true;
+                showExercise(data.exercise);
+                btn.textContent = '⏳ Preparing more...';
+              } else {
+                exerciseQueue.push(data.exercise);
+              }
+            } else if (event === 'model-fallback' && !shown) {
+              btn.textContent = '⏳ Still working...';
+            } else if (event === 'error' && !shown) {
+              throw new Error(data.message || 'Could not generate exercise. Please try again!');
+            }
+          }
+        }
+        
+        if (!shown) {
           alert('Could not generate exercise. Please try again!');
         }
       } catch (err) {
@@ -754,54 +989,268 @@ app.get('/learn/:subject', async (c) => {
       const card = document.getElementById('exerciseCard');
       card.className = 'exercise-card';
       
-      document.getElementById('question').textContent = exercise.problem.content.question;
+      const content = exercise.problem.content;
+      document.getElementById('question').textContent = content.type === 'ordering'
+        ? (exercise.problem.instruction || 'Put these in order') + ' (' + content.orderBy + ')'
+        : content.type === 'conjugation'
+          ? 'Conjugate "' + content.verb + '" (' + [content.tense, content.mood].filter(Boolean).join(', ') + ')'
+          : content.question;
+      
+      const verification = exercise.metadata && exercise.metadata.verification;
+      document.getElementById('verifiedBadge').style.display =
+        verification && verification.status === 'verified' ? 'inline-block' : 'none';
       
       const optionsDiv = document.getElementById('options');
       optionsDiv.innerHTML = '';
       
-      exercise.problem.content.options.forEach(opt => {
-        const optEl = document.createElement('div');
-        optEl.className = 'option';
-        optEl.textContent = opt.id.toUpperCase() + '. ' + opt.text;
-        optEl.dataset.id = opt.id;
-        optEl.addEventListener('click', () => selectOption(optEl, exercise));
-        optionsDiv.appendChild(optEl);
-      });
+      if (content.type === 'ordering') {
+        renderOrdering(exercise, optionsDiv);
+      } else if (content.type === 'conjugation') {
+        renderConjugation(exercise, optionsDiv);
+      } else {
+        content.options.forEach(opt => {
+          const optEl = document.createElement('div');
+          optEl.className = 'option';
+          optEl.textContent = opt.id.toUpperCase() + '. ' + opt.text;
+          optEl.dataset.id = opt.id;
+          optEl.addEventListener('click', () => selectOption(optEl, exercise));
+          optionsDiv.appendChild(optEl);
+        });
+      }
       
       document.getElementById('feedback').style.display = 'none';
       document.getElementById('nextBtn').style.display = 'none';
     }
     
-    function selectOption(optEl, exercise) {
-      if (optEl.classList.contains('correct') || optEl.classList.contains('wrong')) return;
+    // Drag items into order (up/down buttons for touch and keyboard), then grade on the server
+    function renderOrdering(exercise, container) {
+      const list = document.createElement('ol');
+      list.className = 'order-list';
+      let dragged = null;
       
-      document.querySelectorAll('.option').forEach(o => o.classList.remove('selected'));
-      optEl.classList.add('selected');
+      exercise.problem.content.items.forEach(item => {
+        const li = document.createElement('li');
+        li.className = 'order-item';
+        li.draggable = true;
+        li.dataset.id = item.id;
+        
+        const handle = document.createElement('span');
+        handle.className = 'handle';
+        handle.textContent = '☰';
+        const text = document.createElement('span');
+        text.className = 'text';
+        text.textContent = item.text;
+        li.append(handle, text);
+        
+        [['↑', -1], ['↓', 1]].forEach(([label, direction]) => {
+          const moveBtn = document.createElement('button');
+          moveBtn.className = 'move-btn';
+          moveBtn.type = 'button';
+          moveBtn.textContent = label;
+          moveBtn.setAttribute('aria-label', direction < 0 ? 'Move up' : 'Move down');
+          moveBtn.addEventListener('click', () => {
+            const sibling = direction < 0 ? li.previousElementSibling : li.nextElementSibling;
+            if (!sibling) return;
+            list.insertBefore(li, direction < 0 ? sibling : sibling.nextElementSibling);
+            moveBtn.focus();
+          });
+          li.appendChild(moveBtn);
+        });
+        
+        li.addEventListener('dragstart', () => {
+          dragged = li;
+          li.classList.add('dragging');
+        });
+        li.addEventListener('dragend', () => {
+          li.classList.remove('dragging');
+          dragged = null;
+        });
+        li.addEventListener('dragover', (e) => {
+          e.preventDefault();
+          if (!dragged || dragged === li) return;
+          const box = li.getBoundingClientRect();
+          list.insertBefore(dragged, e.clientY > box.top + box.height / 2 ? li.nextElementSibling : li);
+        });
+        
+        list.appendChild(li);
+      });
       
-      const correct = exercise.solution.correctAnswer;
-      const selected = optEl.dataset.id;
+      const checkBtn = document.createElement('button');
+      checkBtn.className = 'btn order-check';
+      checkBtn.textContent = 'Check order';
+      checkBtn.addEventListener('click', () => checkOrdering(exercise, list, checkBtn));
+      
+      container.append(list, checkBtn);
+    }
+    
+    async function checkOrdering(exercise, list, checkBtn) {
+      const items = Array.from(list.querySelectorAll('.order-item'));
       const feedback = document.getElementById('feedback');
       const card = document.getElementById('exerciseCard');
+      checkBtn.disabled = true;
       
-      if (selected === correct) {
-        optEl.classList.add('correct');
-        card.classList.add('correct');
-        feedback.className = 'feedback success';
-        feedback.innerHTML = '🎉 <strong>Correct!</strong> ' + (exercise.solution.explanation || 'Great job!');
-      } else {
-        optEl.classList.add('wrong');
-        card.classList.add('incorrect');
-        document.querySelector(\`.option[data-id="\${correct}"]\`).classList.add('correct');
-        feedback.className = 'feedback error';
-        feedback.innerHTML = '💡 <strong>Not quite!</strong> ' + (exercise.solution.explanation || 'Keep trying!');
+      try {
+        const res = await fetch('/validate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ exerciseId: exercise.id, answer: items.map(li => li.dataset.id), attemptToken }),
+        });
+        const result = await res.json();
+        if (!res.ok) throw new Error(result.message || result.error || 'Could not check your answer');
+        
+        const misplaced = result.misplacedItems || [];
+        items.forEach(li => {
+          li.draggable = false;
+          li.classList.add(misplaced.includes(li.dataset.id) ? 'wrong' : 'correct');
+          li.querySelectorAll('.move-btn').forEach(b => b.disabled = true);
+        });
+        
+        card.classList.add(result.passed ? 'correct' : 'incorrect');
+        feedback.className = result.passed ? 'feedback success' : 'feedback error';
+        feedback.textContent = (result.passed ? '🎉 ' : '💡 ') + result.feedback;
+        feedback.style.display = 'block';
+        checkBtn.style.display = 'none';
+        document.getElementById('nextBtn').style.display = 'inline-block';
+      } catch (err) {
+        checkBtn.disabled = false;
+        alert('Error: ' + err.message);
       }
+    }
+    
+    // One input per subject; Enter moves to the next row and checks from the last one
+    function renderConjugation(exercise, container) {
+      const table = document.createElement('table');
+      table.className = 'conj-table';
+      const inputs = [];
       
-      feedback.style.display = 'block';
-      document.getElementById('nextBtn').style.display = 'inline-block';
+      exercise.problem.content.subjects.forEach((subject, i) => {
+        const row = document.createElement('tr');
+        row.dataset.subject = subject;
+        const label = document.createElement('th');
+        label.textContent = subject;
+        const cell = document.createElement('td');
+        const input = document.createElement('input');
+        input.type = 'text';
+        input.autocomplete = 'off';
+        input.spellcheck = false;
+        input.setAttribute('autocapitalize', 'off');
+        input.setAttribute('aria-label', subject);
+        input.addEventListener('keydown', (e) => {
+          if (e.key !== 'Enter') return;
+          e.preventDefault();
+          if (inputs[i + 1]) inputs[i + 1].focus();
+          else checkBtn.click();
+        });
+        inputs.push(input);
+        cell.appendChild(input);
+        row.append(label, cell);
+        table.appendChild(row);
+      });
+      
+      const checkBtn = document.createElement('button');
+      checkBtn.className = 'btn order-check';
+      checkBtn.textContent = 'Check';
+      checkBtn.addEventListener('click', () => checkConjugation(exercise, table, checkBtn));
+      
+      container.append(table, checkBtn);
+      if (inputs[0]) inputs[0].focus();
+    }
+    
+    async function checkConjugation(exercise, table, checkBtn) {
+      const rows = Array.from(table.querySelectorAll('tr'));
+      const answer = {};
+      rows.forEach(row => { answer[row.dataset.subject] = row.querySelector('input').value; });
+      const feedback = document.getElementById('feedback');
+      const card = document.getElementById('exerciseCard');
+      checkBtn.disabled = true;
+      
+      try {
+        const res = await fetch('/validate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ exerciseId: exercise.id, answer, attemptToken }),
+        });
+        const result = await res.json();
+        if (!res.ok) throw new Error(result.message || result.error || 'Could not check your answer');
+        
+        const forms = result.forms || [];
+        rows.forEach(row => {
+          const form = forms.find(f => f.subject === row.dataset.subject);
+          const status = form ? form.status : 'wrong';
+          row.classList.add(status === 'correct' ? 'correct' : status === 'accents' ? 'close' : 'wrong');
+          row.querySelector('input').readOnly = true;
+          if (form && form.expected) {
+            const expected = document.createElement('span');
+            expected.className = 'expected';
+            expected.textContent = form.expected;
+            row.querySelector('td').appendChild(expected);
+          }
+        });
+        
+        card.classList.add(result.passed ? 'correct' : 'incorrect');
+        feedback.className = result.passed ? 'feedback success' : 'feedback error';
+        feedback.textContent = (result.passed ? '🎉 ' : '💡 ') + result.feedback;
+        feedback.style.display = 'block';
+        checkBtn.style.display = 'none';
+        document.getElementById('nextBtn').style.display = 'inline-block';
+      } catch (err) {
+        checkBtn.disabled = false;
+        alert('Error: ' + err.message);
+      }
+    }
+    
+    // Graded on the server: the page never receives the answer key
+    async function selectOption(optEl, exercise) {
+      const feedback = document.getElementById('feedback');
+      const card = document.getElementById('exerciseCard');
+      if (card.classList.contains('correct') || card.classList.contains('revealed') || document.querySelector('.option.checking')) return;
+      if (optEl.classList.contains('correct') || optEl.classList.contains('wrong')) return;
+      
+      document.querySelectorAll('.option').forEach(o => o.classList.remove('selected'));
+      optEl.classList.add('selected', 'checking');
+      
+      try {
+        const res = await fetch('/validate', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ exerciseId: exercise.id, answer: optEl.dataset.id, attemptToken }),
+        });
+        const result = await res.json();
+        if (!res.ok) throw new Error(result.message || result.error || 'Could not check your answer');
+        attemptToken = result.attemptToken || null;
+        
+        // Options the learner missed are only listed once the solution is revealed
+        (result.optionFeedback || []).forEach(option => {
+          const el = document.querySelector('.option[data-id="' + option.id + '"]');
+          if (!el) return;
+          if (option.status === 'correct' || option.status === 'missed') el.classList.add('correct');
+          else if (option.status === 'wrong' || option.status === 'partial') el.classList.add('wrong');
+        });
+        
+        const explanation = result.solution && result.solution.explanation;
+        card.classList.remove('incorrect');
+        card.classList.add(result.passed ? 'correct' : 'incorrect');
+        // No more tries once the solution is shown: the server would refuse them
+        if (result.showSolution) card.classList.add('revealed');
+        feedback.className = result.passed ? 'feedback success' : 'feedback error';
+        feedback.innerHTML = result.passed ? '🎉 <strong>Correct!</strong> ' : '💡 <strong>Not quite!</strong> ';
+        feedback.append(explanation || result.feedback);
+        feedback.style.display = 'block';
+        document.getElementById('nextBtn').style.display = 'inline-block';
+      } catch (err) {
+        optEl.classList.remove('selected');
+        alert('Error: ' + err.message);
+      } finally {
+        optEl.classList.remove('checking');
+      }
     }
     
     document.getElementById('nextBtn').addEventListener('click', () => {
-      document.getElementById('generateBtn').click();
+      if (exerciseQueue.length > 0) {
+        showExercise(exerciseQueue.shift());
+      } else {
+        document.getElementById('generateBtn').click();
+      }
     });
   </script>
 </body>
@@ -831,8 +1280,8 @@ import { exportExercisesToJSON } from './lib/d1-exercise-bank';
 
 app.get('/api/exercises/export', async (c) => {
   // Only allow owner/admin to export
-  const user = await getSessionUser(c);
-  if (!user || (user.role !== 'owner' && user.role !== 'admin')) {
+  const user = await getAdminUser(c);
+  if (!user) {
     return c.json({ error: 'Unauthorized - admin access required' }, 401);
   }
 
@@ -854,6 +1303,104 @@ app.get('/api/exercises/export', async (c) => {
   }
 });
 
+// Remove expired exercises (retention rules in lib/exercise-store)
+app.post('/api/exercises/purge', async (c) => {
+  const user = await getAdminUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized - admin access required' }, 401);
+  }
+
+  try {
+    const purged = await purgeExpiredExercises(c.env);
+    return c.json({ purged, purgedAt: new Date().toISOString() });
+  } catch (err: any) {
+    console.error('Purge error:', err);
+    return c.json({ error: 'Purge failed', message: err.message }, 500);
+  }
+});
+
+// Reveal an exercise's solution to every learner, whatever its revealPolicy
+app.post('/api/exercises/:exerciseId/release', async (c) => {
+  const user = await getAdminUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized - admin access required' }, 401);
+  }
+
+  const exerciseId = c.req.param('exerciseId');
+  if (!(await getExercise(c.env, exerciseId))) {
+    return c.json({ error: 'Exercise not found' }, 404);
+  }
+
+  const release = await releaseSolution(c.env, exerciseId, user.id);
+  return c.json({ exerciseId, ...release });
+});
+
+// =============================================================================
+// GENERATION LOGS (admin)
+// =============================================================================
+
+app.get('/api/admin/generation-logs', async (c) => {
+  const user = await getAdminUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized - admin access required' }, 401);
+  }
+  if (!c.env.EDU_DB) {
+    return c.json({ error: 'Database not configured' }, 500);
+  }
+
+  const success = c.req.query('success');
+  try {
+    const logs = await queryGenerationLogs(c.env.EDU_DB, {
+      model: c.req.query('model'),
+      subject: c.req.query('subject'),
+      tier: c.req.query('tier'),
+      success: success === undefined ? undefined : success === 'true',
+      hours: parseInt(c.req.query('hours') || '') || undefined,
+      limit: parseInt(c.req.query('limit') || '') || undefined,
+    });
+    return c.json({ logs, count: logs.length });
+  } catch (err: any) {
+    console.error('Generation logs error:', err);
+    return c.json({ error: 'Failed to load generation logs', message: err.message }, 500);
+  }
+});
+
+app.get('/api/admin/generation-logs/summary', async (c) => {
+  const user = await getAdminUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized - admin access required' }, 401);
+  }
+  if (!c.env.EDU_DB) {
+    return c.json({ error: 'Database not configured' }, 500);
+  }
+
+  try {
+    const summary = await summarizeGenerationLogs(c.env.EDU_DB, parseInt(c.req.query('hours') || '') || undefined);
+    return c.json(summary);
+  } catch (err: any) {
+    console.error('Generation log summary error:', err);
+    return c.json({ error: 'Failed to summarize generation logs', message: err.message }, 500);
+  }
+});
+
+// =============================================================================
+// NEURON BUDGET (admin)
+// =============================================================================
+
+app.get('/api/admin/budget', async (c) => {
+  const user = await getAdminUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized - admin access required' }, 401);
+  }
+
+  try {
+    return c.json(await getBudgetReport(c.env));
+  } catch (err: any) {
+    console.error('Budget report error:', err);
+    return c.json({ error: 'Failed to load neuron budget', message: err.message }, 500);
+  }
+});
+
 // =============================================================================
 // SUBJECTS ENDPOINT
 // =============================================================================
@@ -898,24 +1445,23 @@ app.get('/subjects/:subject', (c) => {
 // GENERATE EXERCISE
 // =============================================================================
 
-app.post('/generate', async (c) => {
-  try {
-    const body = await c.req.json<GenerateExerciseRequest>();
-
-    // Validate required fields
-    if (!body.subject || !body.topic) {
-      return c.json({ error: 'subject and topic are required' }, 400);
-    }
+/**
+ * Check a /generate body and apply defaults
+ */
+function prepareGenerateRequest(body: GenerateExerciseRequest): { request?: GenerateExerciseRequest; error?: string } {
+  // Validate required fields
+  if (!body.subject || !body.topic) {
+    return { error: 'subject and topic are required' };
+  }
 
-    // Validate subject
-    if (!SUBJECT_CONFIGS[body.subject]) {
-      return c.json({
-        error: `Invalid subject. Supported: ${Object.keys(SUBJECT_CONFIGS).join(', ')}`
-      }, 400);
-    }
+  // Validate subject
+  if (!SUBJECT_CONFIGS[body.subject]) {
+    return { error: `Invalid subject. Supported: ${Object.keys(SUBJECT_CONFIGS).join(', ')}` };
+  }
 
-    // Set defaults
-    const request: GenerateExerciseRequest = {
+  // Set defaults
+  return {
+    request: {
       ...body,
       difficulty: body.difficulty || 'intermediate',
       count: body.count || 1,
@@ -925,9 +1471,20 @@ app.post('/generate', async (c) => {
         includeCommonMistakes: true,
         ...body.options,
       },
-    };
+    },
+  };
+}
 
-    const response = await generateExercise(c.env, request);
+app.post('/generate', async (c) => {
+  try {
+    const body = await c.req.json<GenerateExerciseRequest>();
+    const { request, error } = prepareGenerateRequest(body);
+    if (error) {
+      return c.json({ error }, 400);
+    }
+
+    const context = await getGenerationContext(c);
+    const response = await toLearnerResponse(c, await generateExercise(c.env, request, context), context.userId);
 
     return c.json(response, 200, {
       'X-Exercises-Count': response.exercises.length.toString(),
@@ -943,6 +1500,52 @@ app.post('/generate', async (c) => {
   }
 });
 
+// Streaming variant: each exercise is sent as an SSE `exercise` event as soon as it is ready,
+// with `model-fallback` / `bank-fallback` progress events, then `done` (or `error`)
+app.post('/generate/stream', async (c) => {
+  let body: GenerateExerciseRequest;
+  try {
+    body = await c.req.json<GenerateExerciseRequest>();
+  } catch {
+    return c.json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { request, error } = prepareGenerateRequest(body);
+  if (error) {
+    return c.json({ error }, 400);
+  }
+
+  const context = await getGenerationContext(c);
+  const learnerKey = learnerKeyFor(c, context.userId);
+
+  return streamSSE(c, async (stream) => {
+    const response = await generateExercise(c.env, request, {
+      ...context,
+      onEvent: async (event) => {
+        const data = event.type === 'exercise'
+          ? {
+            ...event,
+            exercise: toStudentExercise(event.exercise),
+            attemptToken: await issueLearnerToken(c.env, learnerKey, event.exercise.id, context.userId) ?? undefined,
+          }
+          : event;
+        await stream.writeSSE({ event: event.type, data: JSON.stringify(data) });
+      },
+    });
+
+    await stream.writeSSE({
+      event: 'done',
+      data: JSON.stringify({ count: response.exercises.length, meta: response.meta }),
+    });
+  }, async (err, stream) => {
+    console.error('[GENERATE/STREAM] Error:', err);
+    await stream.writeSSE({
+      event: 'error',
+      data: JSON.stringify({ error: 'Exercise generation failed', message: err.message }),
+    });
+  });
+});
+
 // Language-specific shortcut
 app.post('/generate/language', async (c) => {
   try {
@@ -961,8 +1564,8 @@ app.post('/generate/language', async (c) => {
       options: body.options,
     };
 
-    const response = await generateExercise(c.env, request);
-    return c.json(response);
+    const context = await getGenerationContext(c);
+    return c.json(await toLearnerResponse(c, await generateExercise(c.env, request, context), context.userId));
   } catch (error: any) {
     console.error('[GENERATE/LANGUAGE] Error:', error);
     return c.json({ error: 'Language exercise generation failed', message: error.message }, 500);
@@ -985,8 +1588,8 @@ app.post('/generate/mathematics', async (c) => {
       options: body.options,
     };
 
-    const response = await generateExercise(c.env, request);
-    return c.json(response);
+    const context = await getGenerationContext(c);
+    return c.json(await toLearnerResponse(c, await generateExercise(c.env, request, context), context.userId));
   } catch (error: any) {
     console.error('[GENERATE/MATH] Error:', error);
     return c.json({ error: 'Mathematics exercise generation failed', message: error.message }, 500);
@@ -1005,35 +1608,107 @@ app.post('/validate', async (c) => {
       return c.json({ error: 'exerciseId and answer are required' }, 400);
     }
 
-    // Retrieve exercise from cache
-    const exerciseData = await c.env.EXERCISES_KV.get(`exercise:${body.exerciseId}`);
+    // Retrieve exercise from the store
+    const exercise = await getExercise(c.env, body.exerciseId);
 
-    if (!exerciseData) {
+    if (!exercise) {
       return c.json({ error: 'Exercise not found' }, 404);
     }
 
-    const exercise = JSON.parse(exerciseData);
-    const result = validateAnswer(
+    // Hints, time and retries come from the server-side attempt state, not the request body
+    const context = await getGenerationContext(c);
+    const learnerKey = learnerKeyFor(c, context.userId);
+    const state = await getAttemptState(c.env, learnerKey, exercise.id);
+    if (attemptsExhausted(exercise, state)) {
+      return c.json({
+        error: 'No attempts left',
+        exerciseId: body.exerciseId,
+        attempt: attemptSummary(exercise, state),
+      }, 403);
+    }
+
+    // Once the learner has seen the solution, further answers would only copy it
+    const release = await getSolutionRelease(c.env, exercise.id);
+    const revealedBefore = revealDecision(exercise, state, release);
+    if (revealedBefore.revealed) {
+      return c.json({
+        error: 'The solution has already been revealed',
+        reason: revealedBefore.reason,
+        exerciseId: body.exerciseId,
+        attempt: attemptSummary(exercise, state),
+      }, 403);
+    }
+
+    // Time on task from the attempt state, or the signed attempt token when that started earlier
+    let timeTaken = attemptElapsedSeconds(state);
+    if (body.attemptToken) {
+      const check = await redeemAttemptToken(c.env, body.attemptToken, exercise.id, context.userId);
+      if (!check.valid) {
+        return c.json({ error: check.error, exerciseId: body.exerciseId }, 403);
+      }
+      timeTaken = Math.max(timeTaken, check.elapsedSeconds);
+    } else if (attemptTokenRequired(c.env, exercise)) {
+      return c.json({ error: 'attemptToken is required for timed exercises' }, 400);
+    }
+
+    const result = await gradeSubmission(
+      c.env,
       exercise,
       body.answer,
-      body.hintsUsed || 0,
-      body.timeTaken || 0
+      state.hintsRevealed,
+      timeTaken,
+      state.attempts,
+      context
     );
 
-    // Store submission in progress KV if user provided
-    if (body.userId) {
-      const progressKey = `progress:${body.userId}:${body.exerciseId}`;
-      await c.env.PROGRESS_KV.put(progressKey, JSON.stringify({
-        ...result,
-        submittedAt: new Date().toISOString(),
+    // Answers left for a teacher are queued; if that fails the learner is not told to wait for one
+    let reviewId: number | null = null;
+    if (result.pendingReview) {
+      reviewId = await queueForReview(c.env, {
+        exerciseId: exercise.id,
+        userId: context.userId,
+        learnerKey,
         answer: body.answer,
+        hintsUsed: state.hintsRevealed,
+        timeTaken,
+        previousAttempts: state.attempts,
+      });
+      if (reviewId === null) {
+        result.feedback = 'Your answer could not be graded right now. Please try again later.';
+      }
+    }
+
+    const recorded = await recordAttempt(c.env, learnerKey, exercise, state, result);
+    const attempt = attemptSummary(exercise, recorded);
+    const nextToken = attempt.remaining === 0
+      ? null
+      : await issueAttemptToken(c.env, exercise.id, context.userId, recorded.startedAt);
+
+    // Answers awaiting teacher review have no score yet, so the solution stays hidden
+    const reveal = result.pendingReview
+      ? { revealed: false, reason: 'Your answer is waiting for a teacher to grade it.' }
+      : revealDecision(exercise, recorded, release);
+
+    // Signed-in learners' graded submissions go to user_progress and user_skills
+    if (context.userId && !result.pendingReview) {
+      c.executionCtx.waitUntil(recordSubmission(c.env, context.userId, exercise, {
+        answer: body.answer,
+        score: result.score,
+        passed: result.passed,
+        pointsEarned: result.pointsEarned,
+        hintsUsed: state.hintsRevealed,
+        timeTaken,
       }));
     }
 
     return c.json({
       exerciseId: body.exerciseId,
-      ...result,
-      solution: result.passed || result.score < 30 ? exercise.solution : undefined,
+      ...(reveal.revealed ? result : withholdAnswers(result)),
+      ...(reviewId !== null ? { reviewId } : {}),
+      attempt,
+      ...(nextToken ? { attemptToken: nextToken } : {}),
+      showSolution: reveal.revealed,
+      solution: reveal.revealed ? exercise.solution : undefined,
     });
   } catch (error: any) {
     console.error('[VALIDATE] Error:', error);
@@ -1041,19 +1716,170 @@ app.post('/validate', async (c) => {
   }
 });
 
+// =============================================================================
+// TEACHER REVIEW
+// =============================================================================
+
+// A learner's answer that was left for teacher review, with the grade once there is one
+app.get('/reviews/:reviewId', async (c) => {
+  const review = await getReview(c.env, parseInt(c.req.param('reviewId')) || 0);
+  if (!review || (review.learnerKey !== await getLearnerKey(c) && !(await getAdminUser(c)))) {
+    return c.json({ error: 'Review not found' }, 404);
+  }
+
+  const { learnerKey, userId, reviewedBy, ...visible } = review;
+  return c.json(visible);
+});
+
+// Answers waiting for a teacher, oldest first
+app.get('/api/admin/reviews', async (c) => {
+  const user = await getAdminUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized - admin access required' }, 401);
+  }
+  if (!c.env.EDU_DB) {
+    return c.json({ error: 'Database not configured' }, 500);
+  }
+
+  try {
+    const reviews = await listReviews(c.env, {
+      status: (c.req.query('status') as ReviewStatus) || 'pending',
+      exerciseId: c.req.query('exerciseId'),
+      limit: parseInt(c.req.query('limit') || '') || undefined,
+    });
+    return c.json({ reviews, count: reviews.length });
+  } catch (err: any) {
+    console.error('Review list error:', err);
+    return c.json({ error: 'Failed to load reviews', message: err.message }, 500);
+  }
+});
+
+// Record a teacher's 0-100 score; hint, time and retry penalties apply as for automatic grading
+app.post('/api/admin/reviews/:reviewId/grade', async (c) => {
+  const user = await getAdminUser(c);
+  if (!user) {
+    return c.json({ error: 'Unauthorized - admin access required' }, 401);
+  }
+
+  const { score, feedback } = await c.req.json<{ score?: number; feedback?: string }>().catch(() => ({} as { score?: number; feedback?: string }));
+  if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 100) {
+    return c.json({ error: 'score (0-100) is required' }, 400);
+  }
+
+  try {
+    const review = await getReview(c.env, parseInt(c.req.param('reviewId')) || 0);
+    if (!review) {
+      return c.json({ error: 'Review not found' }, 404);
+    }
+    if (review.status !== 'pending') {
+      return c.json({ error: 'Review already graded', review }, 409);
+    }
+    const exercise = await getExercise(c.env, review.exerciseId);
+    if (!exercise) {
+      return c.json({ error: 'Exercise not found' }, 404);
+    }
+
+    const result = scoreReviewedAnswer(
+      exercise,
+      score,
+      (feedback || '').trim() || 'Graded by your teacher.',
+      review.hintsUsed,
+      review.timeTaken,
+      review.previousAttempts
+    );
+    if (!(await completeReview(c.env, review.id, result, user.id))) {
+      return c.json({ error: 'Review already graded' }, 409);
+    }
+
+    // The answer now counts as an attempt (it did not while it was pending)
+    const state = await getAttemptState(c.env, review.learnerKey, exercise.id);
+    await recordAttempt(c.env, review.learnerKey, exercise, state, result);
+
+    // Kept out of user_progress while pending; the graded answer counts like any other
+    if (review.userId) {
+      c.executionCtx.waitUntil(recordSubmission(c.env, review.userId, exercise, {
+        answer: review.answer,
+        score: result.score,
+        passed: result.passed,
+        pointsEarned: result.pointsEarned,
+        hintsUsed: review.hintsUsed,
+        timeTaken: review.timeTaken,
+      }));
+    }
+
+    return c.json({ reviewId: review.id, exerciseId: exercise.id, ...result });
+  } catch (err: any) {
+    console.error('Review grade error:', err);
+    return c.json({ error: 'Failed to record grade', message: err.message }, 500);
+  }
+});
+
+// =============================================================================
+// START ATTEMPT
+// =============================================================================
+
+// Issues a fresh attempt token, e.g. when a queued exercise is shown or the learner retries.
+// The token measures from the attempt's recorded start, so fetching one does not restart the clock.
+app.post('/attempts/start', async (c) => {
+  const { exerciseId } = await c.req.json<{ exerciseId?: string }>().catch(() => ({ exerciseId: undefined }));
+  if (!exerciseId) {
+    return c.json({ error: 'exerciseId is required' }, 400);
+  }
+
+  const exercise = await getExercise(c.env, exerciseId);
+  if (!exercise) {
+    return c.json({ error: 'Exercise not found' }, 404);
+  }
+
+  const context = await getGenerationContext(c);
+  const learnerKey = learnerKeyFor(c, context.userId);
+  const state = await getAttemptState(c.env, learnerKey, exerciseId);
+  if (attemptsExhausted(exercise, state)) {
+    return c.json({ error: 'No attempts left', exerciseId, attempt: attemptSummary(exercise, state) }, 403);
+  }
+  const reveal = revealDecision(exercise, state, await getSolutionRelease(c.env, exerciseId));
+  if (reveal.revealed) {
+    return c.json({
+      error: 'The solution has already been revealed',
+      reason: reveal.reason,
+      exerciseId,
+      attempt: attemptSummary(exercise, state),
+    }, 403);
+  }
+
+  const attemptToken = await issueLearnerToken(c.env, learnerKey, exerciseId, context.userId);
+  if (!attemptToken) {
+    return c.json({ error: 'Attempt tokens are not configured' }, 503);
+  }
+
+  return c.json({
+    exerciseId,
+    attemptToken,
+    timeLimit: exercise.problem.timeLimit,
+    attempt: attemptSummary(exercise, state),
+  });
+});
+
 // =============================================================================
 // GET SOLUTION (after failed attempts)
 // =============================================================================
 
+// Revealed per the exercise's revealPolicy; admins can always see the solution
 app.get('/solution/:exerciseId', async (c) => {
   const exerciseId = c.req.param('exerciseId');
-  const exerciseData = await c.env.EXERCISES_KV.get(`exercise:${exerciseId}`);
+  const exercise = await getExercise(c.env, exerciseId);
 
-  if (!exerciseData) {
+  if (!exercise) {
     return c.json({ error: 'Exercise not found' }, 404);
   }
 
-  const exercise = JSON.parse(exerciseData);
+  if (!(await getAdminUser(c))) {
+    const state = await getAttemptState(c.env, await getLearnerKey(c), exerciseId);
+    const reveal = revealDecision(exercise, state, await getSolutionRelease(c.env, exerciseId));
+    if (!reveal.revealed) {
+      return c.json({ error: 'Solution not available yet', exerciseId, reason: reveal.reason }, 403);
+    }
+  }
 
   return c.json({
     exerciseId,
@@ -1068,21 +1894,22 @@ app.get('/solution/:exerciseId', async (c) => {
 
 app.get('/hints/:exerciseId', async (c) => {
   const exerciseId = c.req.param('exerciseId');
-  const hintIndex = parseInt(c.req.query('index') || '0');
+  const hintIndex = Math.max(0, parseInt(c.req.query('index') || '0') || 0);
 
-  const exerciseData = await c.env.EXERCISES_KV.get(`exercise:${exerciseId}`);
+  const exercise = await getExercise(c.env, exerciseId);
 
-  if (!exerciseData) {
+  if (!exercise) {
     return c.json({ error: 'Exercise not found' }, 404);
   }
 
-  const exercise = JSON.parse(exerciseData);
-  const availableHints = exercise.hints.slice(0, hintIndex + 1);
+  // Revealed hints are recorded, so /validate can apply the hint penalty
+  const revealed = await recordHintsRevealed(c.env, await getLearnerKey(c), exercise, hintIndex);
+  const availableHints = exercise.hints.slice(0, revealed);
 
   return c.json({
     exerciseId,
     hints: availableHints,
-    hasMore: hintIndex + 1 < exercise.hints.length,
+    hasMore: revealed < exercise.hints.length,
     totalHints: exercise.hints.length,
     penalty: exercise.validation.hintPenalty * availableHints.length,
   });
@@ -1135,9 +1962,11 @@ app.notFound((c) => {
       'GET /subjects',
       'GET /subjects/:subject',
       'POST /generate',
+      'POST /generate/stream',
       'POST /generate/language',
       'POST /generate/mathematics',
       'POST /validate',
+      'POST /attempts/start',
       'GET /solution/:exerciseId',
       'GET /hints/:exerciseId',
       'POST /translate',
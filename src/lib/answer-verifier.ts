@@ -0,0 +1,106 @@
+/**
+ * Answer Verifier
+ * Prompts and parsing for the optional verification pass: a second model solves a generated
+ * exercise without seeing its answer key, and the two answers are compared with the normal
+ * grader. The model call and comparison run in generator.ts (GenerationOptions.verifyAnswers).
+ *
+ * Only types with an objective answer key are verified; open-ended types (proofs, essays,
+ * translations, code, derivations) are marked 'skipped'.
+ */
+
+import type { AnswerVerification, Exercise, ExerciseType } from '../types/exercise';
+import { normalizeSolutionAnswer } from './content-validator';
+import { EXERCISE_TYPE_SCHEMAS } from './prompt-schemas';
+
+/** Types whose answer key can be checked by solving the exercise independently */
+const VERIFIABLE_TYPES: ExerciseType[] = [
+    'multiple-choice',
+    'fill-blank',
+    'matching',
+    'ordering',
+    'true-false',
+    'short-answer',
+    'calculation',
+    'conjugation',
+    'diagram',
+];
+
+/**
+ * Whether an exercise's answer key can be verified automatically
+ */
+export function isVerifiable(exercise: Exercise): boolean {
+    return VERIFIABLE_TYPES.includes(exercise.type);
+}
+
+/**
+ * Prompt asking a model to solve the exercise; the solution, hints and explanation are withheld
+ */
+export function buildVerificationPrompt(exercise: Exercise): { systemPrompt: string; userPrompt: string } {
+    const systemPrompt = `You are an expert ${exercise.subject} teacher checking an exercise before it is given to students.
+Solve the exercise yourself, carefully and independently.
+Always respond with valid JSON only.`;
+
+    const userPrompt = `Solve this ${exercise.type} exercise (${exercise.difficulty} level, topic: ${exercise.topic}).
+
+Instruction: ${exercise.problem.instruction}
+
+Exercise:
+${JSON.stringify(exercise.problem.content, null, 2)}
+
+Respond with JSON in this shape:
+{ "answer": <your answer> }
+where the answer is ${EXERCISE_TYPE_SCHEMAS[exercise.type].answer}.
+Return ONLY the JSON object, no additional text.`;
+
+    return { systemPrompt, userPrompt };
+}
+
+/**
+ * Read the verifier's answer, normalised to the shape the grader expects.
+ * Reasoning models may think aloud before the JSON, so the last JSON object is used.
+ */
+export function parseVerifierAnswer(
+    response: string,
+    exercise: Exercise
+): { result: { answer: unknown } | null; errors: string[] } {
+    const text = response.replace(/<think>[\s\S]*?<\/think>/g, '').replace(/```(?:json)?/g, '');
+    const start = text.lastIndexOf('{"answer"') >= 0 ? text.lastIndexOf('{"answer"') : text.indexOf('{');
+    const end = text.lastIndexOf('}');
+
+    if (start < 0 || end <= start) {
+        return { result: null, errors: ['response does not contain a JSON object'] };
+    }
+
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text.slice(start, end + 1));
+    } catch (err: any) {
+        return { result: null, errors: [`response is not valid JSON: ${err?.message || 'parse error'}`] };
+    }
+
+    if (!parsed || typeof parsed !== 'object' || !('answer' in parsed)) {
+        return { result: null, errors: ['response must be an object with an "answer" field'] };
+    }
+
+    let answer = normalizeSolutionAnswer(exercise.problem.content, parsed.answer);
+    // The grader compares calculation answers as plain numbers
+    if (exercise.type === 'calculation' && answer && typeof answer === 'object' && 'value' in answer) {
+        answer = (answer as { value: number }).value;
+    }
+
+    return { result: { answer }, errors: [] };
+}
+
+/**
+ * Verification record from the grader's score of the verifier's answer against the key
+ */
+export function verificationOutcome(model: string, verifierAnswer: unknown, agreement: number): AnswerVerification {
+    const verified = agreement >= 100;
+    return {
+        status: verified ? 'verified' : 'mismatch',
+        model,
+        agreement: Math.round(agreement),
+        verifiedAt: new Date().toISOString(),
+        ...(verified ? {} : { verifierAnswer }),
+    };
+}
@@ -0,0 +1,187 @@
+/**
+ * Attempt State
+ * Server-side record of a learner's work on one exercise (PROGRESS_KV), so hint and retry
+ * penalties do not depend on what the client reports:
+ * - hints revealed by GET /hints
+ * - attempts made through POST /validate, capped by validation.maxAttempts
+ *   (DEFAULT_MAX_ATTEMPTS when unset; 0 means unlimited)
+ * - when the current attempt started, for the time penalty: set when the first attempt token
+ *   is issued (or the first hint revealed) and moved only by a graded attempt, so fetching
+ *   another token does not restart it
+ *
+ * Learners are keyed by session user id, or when anonymous by a random learner id kept in the
+ * LEARNER_COOKIE cookie (not the IP address, which a whole classroom may share). KV is eventually
+ * consistent, so two submissions in the same instant may both count as the same attempt.
+ */
+
+import type { AttemptSummary, Env, Exercise } from '../types/exercise';
+
+/** How long attempt state is kept after the last change (30 days) */
+const ATTEMPT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Cookie holding an anonymous learner's id; kept as long as their attempt state */
+export const LEARNER_COOKIE = 'learner_id';
+export const LEARNER_COOKIE_MAX_AGE = ATTEMPT_TTL_SECONDS;
+
+/** Graded attempts allowed when validation.maxAttempts is unset */
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+/** Points deducted per earlier attempt when validation.retryPenalty is unset */
+export const DEFAULT_RETRY_PENALTY = 25;
+
+export interface AttemptState {
+    hintsRevealed: number;
+    /** Graded submissions so far */
+    attempts: number;
+    bestScore: number;
+    passed: boolean;
+    /** Start of the current attempt: first token or hint, or end of the previous attempt */
+    startedAt?: string;
+    lastAttemptAt?: string;
+}
+
+export interface AttemptPolicy {
+    /** 0 when unlimited */
+    maxAttempts: number;
+    retryPenalty: number;
+}
+
+function attemptStorageKey(learnerKey: string, exerciseId: string): string {
+    return `attempt:${learnerKey}:${exerciseId}`;
+}
+
+/**
+ * Anonymous learner id from a Cookie header; null when there is none or it is not one we issued (a UUID)
+ */
+export function learnerIdFromCookie(cookieHeader: string | undefined): string | null {
+    const match = (cookieHeader || '').match(new RegExp(`(?:^|;\\s*)${LEARNER_COOKIE}=([^;]+)`));
+    return match && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(match[1]) ? match[1] : null;
+}
+
+/**
+ * Key for a learner: the signed-in user, or the learner id cookie for anonymous learners
+ */
+export function attemptLearnerKey(userId: string | undefined, learnerId: string): string {
+    return userId ? `user:${userId}` : `anon:${learnerId}`;
+}
+
+export async function getAttemptState(env: Env, learnerKey: string, exerciseId: string): Promise<AttemptState> {
+    const raw = await env.PROGRESS_KV.get(attemptStorageKey(learnerKey, exerciseId));
+    const empty: AttemptState = { hintsRevealed: 0, attempts: 0, bestScore: 0, passed: false };
+    if (!raw) return empty;
+
+    try {
+        return { ...empty, ...JSON.parse(raw) };
+    } catch {
+        return empty;
+    }
+}
+
+async function saveAttemptState(env: Env, learnerKey: string, exerciseId: string, state: AttemptState): Promise<void> {
+    await env.PROGRESS_KV.put(attemptStorageKey(learnerKey, exerciseId), JSON.stringify(state), {
+        expirationTtl: ATTEMPT_TTL_SECONDS,
+    });
+}
+
+/**
+ * Start the attempt clock, unless it runs already
+ */
+export async function recordAttemptStarted(
+    env: Env,
+    learnerKey: string,
+    exerciseId: string,
+    state: AttemptState
+): Promise<AttemptState> {
+    if (state.startedAt) return state;
+
+    const started: AttemptState = { ...state, startedAt: new Date().toISOString() };
+    await saveAttemptState(env, learnerKey, exerciseId, started);
+    return started;
+}
+
+/**
+ * Record hints up to and including hintIndex as revealed; returns how many are revealed now
+ */
+export async function recordHintsRevealed(
+    env: Env,
+    learnerKey: string,
+    exercise: Exercise,
+    hintIndex: number
+): Promise<number> {
+    const state = await getAttemptState(env, learnerKey, exercise.id);
+    const revealed = Math.min(exercise.hints.length, Math.max(state.hintsRevealed, hintIndex + 1));
+
+    if (revealed !== state.hintsRevealed || !state.startedAt) {
+        await saveAttemptState(env, learnerKey, exercise.id, {
+            ...state,
+            hintsRevealed: revealed,
+            startedAt: state.startedAt || new Date().toISOString(),
+        });
+    }
+    return revealed;
+}
+
+/**
+ * The exercise's attempt limit and retry penalty, with defaults for the ones it leaves unset
+ */
+export function attemptPolicy(exercise: Exercise): AttemptPolicy {
+    const { maxAttempts, retryPenalty } = exercise.validation;
+    return {
+        maxAttempts: Math.max(0, maxAttempts ?? DEFAULT_MAX_ATTEMPTS),
+        retryPenalty: Math.max(0, retryPenalty ?? DEFAULT_RETRY_PENALTY),
+    };
+}
+
+/**
+ * Whether the exercise's attempt limit is used up
+ */
+export function attemptsExhausted(exercise: Exercise, state: AttemptState): boolean {
+    const max = attemptPolicy(exercise).maxAttempts;
+    return max > 0 && state.attempts >= max;
+}
+
+/**
+ * Seconds since the current attempt started (0 when nothing was recorded before it)
+ */
+export function attemptElapsedSeconds(state: AttemptState, now: Date = new Date()): number {
+    if (!state.startedAt) return 0;
+    const started = Date.parse(state.startedAt);
+    return Number.isNaN(started) ? 0 : Math.max(0, Math.round((now.getTime() - started) / 1000));
+}
+
+/**
+ * Record a graded attempt. Answers awaiting teacher review do not use up an attempt.
+ */
+export async function recordAttempt(
+    env: Env,
+    learnerKey: string,
+    exercise: Exercise,
+    state: AttemptState,
+    result: { score: number; passed: boolean; pendingReview?: boolean }
+): Promise<AttemptState> {
+    if (result.pendingReview) return state;
+
+    const now = new Date().toISOString();
+    const next: AttemptState = {
+        ...state,
+        attempts: state.attempts + 1,
+        bestScore: Math.max(state.bestScore, result.score),
+        passed: state.passed || result.passed,
+        startedAt: now,
+        lastAttemptAt: now,
+    };
+    await saveAttemptState(env, learnerKey, exercise.id, next);
+    return next;
+}
+
+/**
+ * Attempt information returned with a graded submission
+ */
+export function attemptSummary(exercise: Exercise, state: AttemptState): AttemptSummary {
+    const max = attemptPolicy(exercise).maxAttempts;
+    return {
+        attempts: state.attempts,
+        hintsUsed: state.hintsRevealed,
+        ...(max > 0 ? { maxAttempts: max, remaining: Math.max(0, max - state.attempts) } : {}),
+    };
+}
@@ -0,0 +1,163 @@
+/**
+ * Attempt Tokens
+ * Signed tokens issued when an exercise is delivered (/generate, POST /attempts/start) and
+ * redeemed by /validate, so time on task is measured by the server:
+ *
+ *   base64url(payload JSON) "." base64url(HMAC-SHA256(payload, ATTEMPT_TOKEN_SECRET))
+ *
+ * The payload names the exercise, the signed-in user (if any), a nonce, the issue time and
+ * when the learner started the exercise (the attempt state's startedAt), so a token fetched
+ * later still measures from the first one.
+ * Each nonce can be redeemed once (recorded in PROGRESS_KV until the token expires). KV is
+ * eventually consistent, so a replay within seconds from another location may slip through.
+ *
+ * Without ATTEMPT_TOKEN_SECRET no tokens are issued and time comes from the attempt state.
+ */
+
+import type { Env, Exercise } from '../types/exercise';
+
+/** How long a token can be redeemed (24 hours) */
+const ATTEMPT_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+/** KV's minimum expirationTtl */
+const MIN_KV_TTL_SECONDS = 60;
+
+interface AttemptTokenPayload {
+    exerciseId: string;
+    userId?: string;
+    nonce: string;
+    /** Milliseconds since epoch */
+    issuedAt: number;
+    /** Start of the attempt the token times, if earlier than issuedAt (milliseconds since epoch) */
+    startedAt?: number;
+}
+
+export interface AttemptTokenCheck {
+    valid: boolean;
+    /** Seconds since the attempt started (0 when invalid) */
+    elapsedSeconds: number;
+    error?: string;
+}
+
+let cachedKey: { secret: string; key: CryptoKey } | null = null;
+
+async function signingKey(secret: string): Promise<CryptoKey> {
+    if (cachedKey?.secret !== secret) {
+        const key = await crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(secret),
+            { name: 'HMAC', hash: 'SHA-256' },
+            false,
+            ['sign', 'verify']
+        );
+        cachedKey = { secret, key };
+    }
+    return cachedKey.key;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    for (const byte of bytes) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+}
+
+function nonceStorageKey(nonce: string): string {
+    return `attempt-nonce:${nonce}`;
+}
+
+export function attemptTokensEnabled(env: Env): boolean {
+    return !!env.ATTEMPT_TOKEN_SECRET;
+}
+
+/**
+ * Whether /validate needs a token for this exercise: timed exercises, once tokens are configured
+ */
+export function attemptTokenRequired(env: Env, exercise: Exercise): boolean {
+    return attemptTokensEnabled(env) && !!exercise.problem.timeLimit && !!exercise.validation.timePenalty;
+}
+
+/**
+ * Issue a token for an attempt that started at startedAt (ISO time; now when omitted);
+ * null when tokens are not configured
+ */
+export async function issueAttemptToken(
+    env: Env,
+    exerciseId: string,
+    userId?: string,
+    startedAt?: string
+): Promise<string | null> {
+    if (!env.ATTEMPT_TOKEN_SECRET) return null;
+
+    const issuedAt = Date.now();
+    const started = startedAt ? Date.parse(startedAt) : NaN;
+    const payload: AttemptTokenPayload = {
+        exerciseId,
+        ...(userId ? { userId } : {}),
+        nonce: crypto.randomUUID(),
+        issuedAt,
+        ...(started < issuedAt ? { startedAt: started } : {}),
+    };
+    const body = new TextEncoder().encode(JSON.stringify(payload));
+    const signature = await crypto.subtle.sign('HMAC', await signingKey(env.ATTEMPT_TOKEN_SECRET), body);
+    return `${toBase64Url(body)}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Check a token for this exercise and user and use up its nonce
+ */
+export async function redeemAttemptToken(
+    env: Env,
+    token: string,
+    exerciseId: string,
+    userId?: string
+): Promise<AttemptTokenCheck> {
+    if (!env.ATTEMPT_TOKEN_SECRET) {
+        return { valid: false, elapsedSeconds: 0, error: 'Attempt tokens are not configured' };
+    }
+
+    let payload: AttemptTokenPayload;
+    try {
+        const [body, signature, extra] = token.split('.');
+        if (!body || !signature || extra !== undefined) throw new Error('malformed');
+
+        const bodyBytes = fromBase64Url(body);
+        const verified = await crypto.subtle.verify(
+            'HMAC',
+            await signingKey(env.ATTEMPT_TOKEN_SECRET),
+            fromBase64Url(signature),
+            bodyBytes
+        );
+        if (!verified) return { valid: false, elapsedSeconds: 0, error: 'Invalid attempt token' };
+        payload = JSON.parse(new TextDecoder().decode(bodyBytes));
+    } catch {
+        return { valid: false, elapsedSeconds: 0, error: 'Invalid attempt token' };
+    }
+
+    if (payload.exerciseId !== exerciseId) {
+        return { valid: false, elapsedSeconds: 0, error: 'Attempt token is for another exercise' };
+    }
+    if (payload.userId && payload.userId !== userId) {
+        return { valid: false, elapsedSeconds: 0, error: 'Attempt token is for another learner' };
+    }
+
+    const ageSeconds = (Date.now() - payload.issuedAt) / 1000;
+    if (ageSeconds > ATTEMPT_TOKEN_TTL_SECONDS) {
+        return { valid: false, elapsedSeconds: 0, error: 'Attempt token expired; start a new attempt' };
+    }
+
+    const nonceKey = nonceStorageKey(payload.nonce);
+    if (await env.PROGRESS_KV.get(nonceKey)) {
+        return { valid: false, elapsedSeconds: 0, error: 'Attempt token already used; start a new attempt' };
+    }
+    await env.PROGRESS_KV.put(nonceKey, exerciseId, {
+        expirationTtl: Math.max(MIN_KV_TTL_SECONDS, Math.ceil(ATTEMPT_TOKEN_TTL_SECONDS - ageSeconds)),
+    });
+
+    const elapsedSeconds = (Date.now() - Math.min(payload.issuedAt, payload.startedAt ?? payload.issuedAt)) / 1000;
+    return { valid: true, elapsedSeconds: Math.max(0, Math.round(elapsedSeconds)) };
+}
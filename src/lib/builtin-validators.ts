@@ -0,0 +1,352 @@
+/**
+ * Built-in Custom Validators
+ * Registered by validator-registry.ts. Options are read from ValidationRules.validatorOptions.
+ *
+ * - chem-equation-balanced: a chemical equation with the key's reactants and products, balanced
+ *   for atoms and charge. Options: lowestTerms (coefficients must not share a factor)
+ * - set-equality: an unordered list ("Mars, Venus" or an array) equal to the key's list; typed
+ *   elements are compared tolerantly. Partial credit is (found - extra) / expected
+ * - regex: the answer matches a pattern in full. Options: pattern (default: the key), partial
+ *   (match anywhere)
+ * - date-within-years: a year or date within N years of the key. Options: years
+ *   (default: validation.tolerance or 0). Understands "44 BC", "1066 AD", ISO and written dates
+ */
+
+import type { Exercise } from '../types/exercise';
+import { matchTextAnswer, textMatchOptions } from './text-matcher';
+import type { CustomValidator, CustomValidatorResult } from './validator-registry';
+
+/** Score for a right reaction that is not balanced, or a date within twice the tolerance */
+const PARTIAL_VALIDATOR_CREDIT = 50;
+
+function optionsOf(exercise: Exercise): Record<string, unknown> {
+    return exercise.validation.validatorOptions || {};
+}
+
+// =============================================================================
+// CHEMICAL EQUATIONS
+// =============================================================================
+
+interface Species {
+    /** Formula without coefficient or state, e.g. "H2O" */
+    formula: string;
+    coefficient: number;
+    atoms: Map<string, number>;
+    charge: number;
+}
+
+const ARROW = /\s*(?:<=>|<->|⇌|⟶|→|->|=>|=)\s*/;
+const STATE = /\((?:s|l|g|aq)\)$/i;
+const SUBSCRIPTS: Record<string, string> = { '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4', '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9' };
+
+function addAtoms(target: Map<string, number>, source: Map<string, number>, times: number): void {
+    for (const [element, count] of source) {
+        target.set(element, (target.get(element) || 0) + count * times);
+    }
+}
+
+/**
+ * Atom counts of a formula with groups and hydrates: "Ca(OH)2", "CuSO4·5H2O"
+ */
+function parseFormula(formula: string): Map<string, number> {
+    const total = new Map<string, number>();
+
+    for (const part of formula.split(/[·•*]/)) {
+        const hydrate = /^(\d+)(.*)$/.exec(part);
+        const multiplier = hydrate && total.size > 0 ? parseInt(hydrate[1], 10) : 1;
+        const body = hydrate && total.size > 0 ? hydrate[2] : part;
+
+        const stack: Array<Map<string, number>> = [new Map()];
+        let i = 0;
+        while (i < body.length) {
+            const ch = body[i];
+            if (ch === '(' || ch === '[') {
+                stack.push(new Map());
+                i++;
+            } else if (ch === ')' || ch === ']') {
+                const group = stack.pop();
+                if (!group || stack.length === 0) throw new Error(`Unbalanced brackets in ${formula}`);
+                const count = /^\d*/.exec(body.slice(i + 1))![0];
+                addAtoms(stack[stack.length - 1], group, count ? parseInt(count, 10) : 1);
+                i += 1 + count.length;
+            } else {
+                const element = /^([A-Z][a-z]?)(\d*)/.exec(body.slice(i));
+                if (!element) throw new Error(`Cannot read ${formula}`);
+                addAtoms(stack[stack.length - 1], new Map([[element[1], 1]]), element[2] ? parseInt(element[2], 10) : 1);
+                i += element[0].length;
+            }
+        }
+        if (stack.length !== 1) throw new Error(`Unbalanced brackets in ${formula}`);
+        addAtoms(total, stack[0], multiplier);
+    }
+    return total;
+}
+
+/**
+ * One term of an equation: "2H2O(l)", "Fe^3+", "SO4 2-", "e-"
+ */
+function parseSpecies(term: string): Species {
+    let text = term.trim().replace(/[₀-₉]/g, d => SUBSCRIPTS[d]).replace(STATE, '').trim();
+
+    const coefficientMatch = /^(\d+(?:\.\d+)?)\s*/.exec(text);
+    const coefficient = coefficientMatch ? parseFloat(coefficientMatch[1]) : 1;
+    if (coefficientMatch) text = text.slice(coefficientMatch[0].length);
+
+    if (/^e(?:-|⁻)?$/.test(text)) {
+        return { formula: 'e-', coefficient, atoms: new Map(), charge: -1 };
+    }
+
+    // "Fe3+" is a monatomic ion with charge 3+; in "NH4+" the digit is a subscript
+    const monatomic = /^([A-Z][a-z]?)(\d+)([+-])$/.exec(text);
+    if (monatomic) {
+        text = `${monatomic[1]}^${monatomic[2]}${monatomic[3]}`;
+    }
+
+    let charge = 0;
+    const chargeMatch = /(?:\^\{?|\s+)(\d*)([+-])\}?$|([+-]+)$/.exec(text);
+    if (chargeMatch) {
+        charge = chargeMatch[3]
+            ? chargeMatch[3].length * (chargeMatch[3][0] === '+' ? 1 : -1)
+            : (parseInt(chargeMatch[1] || '1', 10)) * (chargeMatch[2] === '+' ? 1 : -1);
+        text = text.slice(0, chargeMatch.index).trim();
+    }
+
+    if (!text) throw new Error(`Cannot read "${term}"`);
+    const formula = text.replace(/\s+/g, '');
+    return { formula: charge ? `${formula}${charge > 0 ? '+' : '-'}${Math.abs(charge)}` : formula, coefficient, atoms: parseFormula(formula), charge };
+}
+
+/**
+ * Split one side of an equation on "+" separators, leaving charge signs ("Na+ + Cl-") alone
+ */
+function splitTerms(side: string): string[] {
+    return side
+        .split(/\+(?=\s*(?:\d*\s*[A-Z(\[]|\d*\s*e(?:-|⁻)?\s*(?:$|\+)))/)
+        .map(term => term.trim())
+        .filter(Boolean);
+}
+
+function parseEquation(text: string): { left: Species[]; right: Species[] } {
+    const sides = text.replace(/[⁺]/g, '+').replace(/[⁻−]/g, '-').split(ARROW);
+    if (sides.length !== 2 || !sides[0].trim() || !sides[1].trim()) {
+        throw new Error('An equation needs reactants, an arrow and products');
+    }
+    return { left: splitTerms(sides[0]).map(parseSpecies), right: splitTerms(sides[1]).map(parseSpecies) };
+}
+
+function totals(side: Species[]): { atoms: Map<string, number>; charge: number } {
+    const atoms = new Map<string, number>();
+    let charge = 0;
+    for (const species of side) {
+        addAtoms(atoms, species.atoms, species.coefficient);
+        charge += species.charge * species.coefficient;
+    }
+    return { atoms, charge };
+}
+
+function gcd(a: number, b: number): number {
+    return b === 0 ? a : gcd(b, a % b);
+}
+
+function speciesKey(side: Species[]): string {
+    return side.map(s => s.formula).sort().join(' + ');
+}
+
+function gradeChemicalEquation(exercise: Exercise, userAnswer: unknown): CustomValidatorResult {
+    let answer: { left: Species[]; right: Species[] };
+    try {
+        answer = parseEquation(String(userAnswer ?? ''));
+    } catch (err: any) {
+        return { score: 0, feedback: `Could not read your equation: ${err.message}.`, details: { readable: false } };
+    }
+
+    const key = typeof exercise.solution.correctAnswer === 'string' ? exercise.solution.correctAnswer : '';
+    if (key) {
+        const expected = parseEquation(key);
+        if (speciesKey(answer.left) !== speciesKey(expected.left) || speciesKey(answer.right) !== speciesKey(expected.right)) {
+            return {
+                score: 0,
+                feedback: 'Your equation does not have the right reactants and products.',
+                details: { readable: true, sameReaction: false },
+            };
+        }
+    }
+
+    const left = totals(answer.left);
+    const right = totals(answer.right);
+    const elements = [...new Set([...left.atoms.keys(), ...right.atoms.keys()])];
+    const unbalanced = elements.filter(el => Math.abs((left.atoms.get(el) || 0) - (right.atoms.get(el) || 0)) > 1e-9);
+    const chargeBalanced = Math.abs(left.charge - right.charge) < 1e-9;
+
+    if (unbalanced.length > 0 || !chargeBalanced) {
+        const problems = [
+            ...unbalanced.map(el => `${el} ${left.atoms.get(el) || 0} → ${right.atoms.get(el) || 0}`),
+            ...(chargeBalanced ? [] : [`charge ${left.charge} → ${right.charge}`]),
+        ];
+        return {
+            score: exercise.validation.allowPartialCredit ? PARTIAL_VALIDATOR_CREDIT : 0,
+            feedback: `Right reaction, but it is not balanced (${problems.join(', ')}).`,
+            details: { readable: true, sameReaction: true, balanced: false, unbalancedElements: unbalanced, chargeBalanced },
+        };
+    }
+
+    const coefficients = [...answer.left, ...answer.right].map(s => s.coefficient);
+    const whole = coefficients.every(Number.isInteger);
+    const lowestTerms = whole && coefficients.reduce(gcd) === 1;
+    if (!lowestTerms && optionsOf(exercise).lowestTerms) {
+        return {
+            score: exercise.validation.allowPartialCredit ? PARTIAL_VALIDATOR_CREDIT : 0,
+            feedback: 'Balanced, but use the smallest whole-number coefficients.',
+            details: { readable: true, sameReaction: true, balanced: true, lowestTerms: false },
+        };
+    }
+
+    return {
+        score: 100,
+        feedback: lowestTerms ? 'Correct! The equation is balanced.' : 'Correct! It is balanced, though the coefficients can be simplified.',
+        details: { readable: true, sameReaction: true, balanced: true, lowestTerms },
+    };
+}
+
+// =============================================================================
+// SETS
+// =============================================================================
+
+function listItems(value: unknown): string[] {
+    const raw = Array.isArray(value)
+        ? value
+        : String(value ?? '').split(/\s*(?:[,;\n]|\band\b|&)\s*/i);
+    return raw.map(item => String(item ?? '').trim()).filter(Boolean);
+}
+
+function gradeSetEquality(exercise: Exercise, userAnswer: unknown): CustomValidatorResult {
+    const expected = listItems(exercise.solution.correctAnswer);
+    const given = [...new Set(listItems(userAnswer))];
+    const options = textMatchOptions(exercise);
+
+    if (expected.length === 0) {
+        return { score: 0, feedback: 'This exercise has no answer key.' };
+    }
+
+    const found = new Set<string>();
+    const extra: string[] = [];
+    for (const item of given) {
+        const match = matchTextAnswer(item, expected.filter(e => !found.has(e)), options);
+        if (match.status !== 'wrong' && match.matched) {
+            found.add(match.matched);
+        } else {
+            extra.push(item);
+        }
+    }
+
+    const missing = expected.length - found.size;
+    if (missing === 0 && extra.length === 0) {
+        return { score: 100, feedback: `Correct! You named all ${expected.length}.`, details: { found: found.size, missing: 0, extra: [] } };
+    }
+
+    const score = exercise.validation.allowPartialCredit
+        ? Math.max(0, (found.size - extra.length) / expected.length) * 100
+        : 0;
+    const parts = [
+        `You found ${found.size} of ${expected.length}.`,
+        ...(extra.length > 0 ? [`Not in the answer: ${extra.join(', ')}.`] : []),
+    ];
+    return { score, feedback: parts.join(' '), details: { found: found.size, missing, extra } };
+}
+
+// =============================================================================
+// PATTERNS
+// =============================================================================
+
+function gradeRegex(exercise: Exercise, userAnswer: unknown): CustomValidatorResult {
+    const options = optionsOf(exercise);
+    const pattern = typeof options.pattern === 'string' ? options.pattern : String(exercise.solution.correctAnswer ?? '');
+    const source = options.partial ? pattern : `^(?:${pattern})$`;
+    const regex = new RegExp(source, exercise.validation.caseSensitive ? 'u' : 'iu');
+
+    const matched = regex.test(String(userAnswer ?? '').trim());
+    return {
+        score: matched ? 100 : 0,
+        feedback: matched ? 'Correct!' : 'Incorrect. Review the solution for the correct answer.',
+        details: { matched },
+    };
+}
+
+// =============================================================================
+// DATES
+// =============================================================================
+
+/**
+ * Astronomical year (1 BC = 0) with a fraction for the day, from a year or a date
+ */
+function parseYear(value: unknown): number | null {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    const text = String(value ?? '').trim();
+
+    const era = /^(?:c(?:irca|a)?\.?\s*)?(\d{1,5})\s*(BCE?|B\.C\.(?:E\.)?|CE|AD|A\.D\.)?$/i.exec(text);
+    if (era) {
+        const year = parseInt(era[1], 10);
+        return era[2] && /^b/i.test(era[2]) ? 1 - year : year;
+    }
+
+    const time = Date.parse(text);
+    if (Number.isNaN(time)) return null;
+    const date = new Date(time);
+    const start = Date.UTC(date.getUTCFullYear(), 0, 1);
+    const end = Date.UTC(date.getUTCFullYear() + 1, 0, 1);
+    return date.getUTCFullYear() + (time - start) / (end - start);
+}
+
+function gradeDateWithinYears(exercise: Exercise, userAnswer: unknown): CustomValidatorResult {
+    const expected = parseYear(exercise.solution.correctAnswer);
+    if (expected === null) throw new Error('answer key is not a year or date');
+
+    const given = parseYear(userAnswer);
+    if (given === null) {
+        return { score: 0, feedback: 'Give a year (e.g. 1066 or 44 BC) or a date.', details: { readable: false } };
+    }
+
+    const configured = Number(optionsOf(exercise).years ?? exercise.validation.tolerance ?? 0);
+    const years = Number.isFinite(configured) && configured > 0 ? configured : 0;
+    const off = Math.abs(given - expected);
+    const offYears = Math.abs(Math.floor(given) - Math.floor(expected));
+
+    // The same calendar year always counts, so "1776" is right for "July 4, 1776"
+    if (off <= years || Math.floor(given) === Math.floor(expected)) {
+        return { score: 100, feedback: 'Correct!', details: { readable: true, yearsOff: offYears } };
+    }
+
+    const score = exercise.validation.allowPartialCredit && years > 0 && off <= 2 * years ? PARTIAL_VALIDATOR_CREDIT : 0;
+    return {
+        score,
+        feedback: `Not quite — you are about ${offYears} year${offYears === 1 ? '' : 's'} ${given < expected ? 'too early' : 'too late'}.`,
+        details: { readable: true, yearsOff: offYears },
+    };
+}
+
+export const BUILTIN_VALIDATORS: CustomValidator[] = [
+    {
+        name: 'chem-equation-balanced',
+        description: 'Chemical equation with the right reactants and products, balanced for atoms and charge',
+        types: ['short-answer'],
+        validate: gradeChemicalEquation,
+    },
+    {
+        name: 'set-equality',
+        description: 'Unordered list of items equal to the answer key',
+        types: ['short-answer', 'fill-blank'],
+        validate: gradeSetEquality,
+    },
+    {
+        name: 'regex',
+        description: 'Answer matches a regular expression (validatorOptions.pattern, or the answer key)',
+        types: ['short-answer', 'fill-blank'],
+        validate: gradeRegex,
+    },
+    {
+        name: 'date-within-years',
+        description: 'Year or date within validatorOptions.years of the answer key',
+        types: ['short-answer', 'fill-blank', 'calculation'],
+        validate: gradeDateWithinYears,
+    },
+];
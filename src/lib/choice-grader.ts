@@ -0,0 +1,135 @@
+/**
+ * Choice Grader
+ * Scores single- and multi-select multiple-choice answers with per-option feedback.
+ *
+ * Multi-select scoring (ValidationRules.multiSelectScoring):
+ * - all-or-nothing: 100 only when every correct option and no wrong option is picked
+ * - per-option:     share of options decided correctly (correct picked, wrong left out)
+ * - penalize-wrong: (correct picks - wrong picks) / correct options, floored at 0
+ * Options flagged isPartiallyCorrect are never required or penalised; picking one earns
+ * PARTIAL_OPTION_CREDIT of a correct pick. Without allowPartialCredit, all-or-nothing applies.
+ */
+
+import type {
+    MultipleChoiceContent,
+    MultiSelectScoring,
+    OptionFeedback,
+    ValidationRules,
+} from '../types/exercise';
+
+/** Credit for picking a partially correct option, relative to a fully correct one */
+export const PARTIAL_OPTION_CREDIT = 0.5;
+
+export interface ChoiceGradeResult {
+    score: number;
+    feedback: string;
+    optionFeedback: OptionFeedback[];
+}
+
+/**
+ * Selected option ids from an answer given as an id, an id list or "a, c"
+ */
+function selectedIds(userAnswer: unknown): string[] {
+    const raw = Array.isArray(userAnswer)
+        ? userAnswer
+        : typeof userAnswer === 'string' ? userAnswer.split(',') : [];
+    return [...new Set(raw.map(id => String(id).trim()).filter(Boolean))];
+}
+
+/**
+ * Grade a multiple-choice answer
+ */
+export function gradeMultipleChoice(
+    content: MultipleChoiceContent,
+    correctAnswer: unknown,
+    userAnswer: unknown,
+    validation: ValidationRules
+): ChoiceGradeResult {
+    const correct = new Set(Array.isArray(correctAnswer) ? correctAnswer.map(String) : [String(correctAnswer)]);
+    const partial = new Set(
+        (content.options || []).filter(opt => opt.isPartiallyCorrect && !correct.has(opt.id)).map(opt => opt.id)
+    );
+    const selected = new Set(selectedIds(userAnswer));
+
+    const optionFeedback: OptionFeedback[] = (content.options || []).map(opt => {
+        const picked = selected.has(opt.id);
+        const status: OptionFeedback['status'] = correct.has(opt.id)
+            ? (picked ? 'correct' : 'missed')
+            : partial.has(opt.id)
+                ? (picked ? 'partial' : 'neutral')
+                : (picked ? 'wrong' : 'neutral');
+        return { id: opt.id, selected: picked, status };
+    });
+
+    const count = (status: OptionFeedback['status']) => optionFeedback.filter(o => o.status === status).length;
+    const hits = count('correct');
+    const missed = count('missed');
+    const wrong = count('wrong');
+    const partialPicks = count('partial');
+
+    if (!content.multiSelect) {
+        return gradeSingleSelect(partialPicks > 0, selected.size, hits, validation, optionFeedback);
+    }
+
+    const scoring: MultiSelectScoring = validation.allowPartialCredit
+        ? validation.multiSelectScoring || 'per-option'
+        : 'all-or-nothing';
+
+    let score: number;
+    switch (scoring) {
+        case 'all-or-nothing':
+            score = missed === 0 && wrong === 0 ? 100 : 0;
+            break;
+
+        case 'penalize-wrong':
+            score = correct.size > 0
+                ? Math.max(0, (hits + partialPicks * PARTIAL_OPTION_CREDIT - wrong) / correct.size) * 100
+                : 0;
+            break;
+
+        case 'per-option': {
+            // Partially correct options are not counted as decisions; picking one is a bonus
+            const decided = optionFeedback.length - partial.size;
+            const rightCalls = hits + optionFeedback.filter(o => o.status === 'neutral' && !partial.has(o.id)).length;
+            score = decided > 0 ? ((rightCalls + partialPicks * PARTIAL_OPTION_CREDIT) / decided) * 100 : 0;
+            break;
+        }
+    }
+
+    score = Math.min(100, score);
+
+    const feedback = missed === 0 && wrong === 0
+        ? 'Correct! You found every right option.'
+        : [
+            `You picked ${hits} of ${correct.size} correct option${correct.size === 1 ? '' : 's'}`,
+            wrong > 0 ? `and ${wrong} wrong one${wrong === 1 ? '' : 's'}` : '',
+        ].filter(Boolean).join(' ') + '.';
+
+    return { score, feedback, optionFeedback };
+}
+
+function gradeSingleSelect(
+    pickedPartial: boolean,
+    selectedCount: number,
+    hits: number,
+    validation: ValidationRules,
+    optionFeedback: OptionFeedback[]
+): ChoiceGradeResult {
+    if (selectedCount === 1 && hits === 1) {
+        return { score: 100, feedback: 'Correct!', optionFeedback };
+    }
+    if (selectedCount === 1 && pickedPartial && validation.allowPartialCredit) {
+        return {
+            score: PARTIAL_OPTION_CREDIT * 100,
+            feedback: 'Partly right, but there is a better answer.',
+            optionFeedback,
+        };
+    }
+    return {
+        score: 0,
+        feedback: selectedCount > 1
+            ? 'Pick only one option.'
+            : 'Incorrect.',
+        optionFeedback,
+    };
+}
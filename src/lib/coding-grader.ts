@@ -0,0 +1,242 @@
+/**
+ * Coding Grader
+ * Runs learner JavaScript against an exercise's test cases in a QuickJS WebAssembly sandbox
+ * (Workers forbid eval / new Function, and the sandbox has no access to the worker's globals).
+ *
+ * Each test case gets a fresh interpreter with CPU, memory and stack limits. Workers freeze the
+ * clock during synchronous work, so CPU is metered in interpreter interrupt checks (QuickJS runs
+ * the handler about every 10k operations); the wall-clock deadline only matters in local dev.
+ *
+ * The program may
+ * define `solve(input)` and return the answer, or print it with console.log; `input` is the test
+ * case's input string. Output is compared after trimming trailing whitespace on each line.
+ *
+ * Only JavaScript is executed. A Python interpreter (Pyodide) is far beyond the Worker size limit,
+ * so Python answers are reported as not gradable instead of being compared as text.
+ */
+
+import { newQuickJSWASMModuleFromVariant, newVariant, memoizePromiseFactory } from 'quickjs-emscripten-core';
+import type { QuickJSContext, QuickJSWASMModule } from 'quickjs-emscripten-core';
+import releaseSyncVariant from '@jitl/quickjs-wasmfile-release-sync';
+import quickjsWasm from '@jitl/quickjs-wasmfile-release-sync/wasm';
+import type { CodingContent, TestCaseResult, ValidationRules } from '../types/exercise';
+
+/** Interrupt checks allowed per test case (roughly 10M operations) */
+const TEST_CHECK_LIMIT = 1000;
+
+/** Interrupt checks allowed for a whole submission; remaining tests fail with time-limit */
+const SUBMISSION_CHECK_LIMIT = 4000;
+
+/** Wall-clock backstop for one test case */
+const TEST_TIME_LIMIT_MS = 1000;
+
+const MEMORY_LIMIT_BYTES = 32 * 1024 * 1024;
+const STACK_LIMIT_BYTES = 512 * 1024;
+
+/** Longest accepted program */
+const MAX_CODE_LENGTH = 20000;
+
+/** Captured console output per test case */
+const MAX_OUTPUT_LENGTH = 10000;
+
+const JAVASCRIPT_NAMES = ['javascript', 'js', 'node', 'nodejs', 'ecmascript'];
+
+export interface CodeGradeResult {
+    score: number;
+    feedback: string;
+    testResults: TestCaseResult[];
+}
+
+/** The QuickJS module is compiled once per isolate */
+const getQuickJS = memoizePromiseFactory((): Promise<QuickJSWASMModule> =>
+    newQuickJSWASMModuleFromVariant(newVariant(releaseSyncVariant, { wasmModule: quickjsWasm }))
+);
+
+/**
+ * Whether answers in this language can be executed
+ */
+export function isRunnableLanguage(language: string): boolean {
+    return JAVASCRIPT_NAMES.includes((language || 'javascript').trim().toLowerCase());
+}
+
+/**
+ * Output normalised for comparison: unified line endings, no trailing whitespace
+ */
+function normalizeOutput(text: string): string {
+    return text.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trim();
+}
+
+/**
+ * Printable form of a value returned from the sandbox
+ */
+function formatValue(value: unknown): string {
+    if (typeof value === 'string') return value;
+    if (value === undefined) return '';
+    try {
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    } catch {
+        return String(value);
+    }
+}
+
+/**
+ * Install console.log/error/warn that append to `output`
+ */
+function installConsole(context: QuickJSContext, output: string[]): void {
+    const consoleHandle = context.newObject();
+    for (const method of ['log', 'info', 'warn', 'error']) {
+        const fn = context.newFunction(method, (...args) => {
+            const line = args.map(arg => formatValue(context.dump(arg))).join(' ');
+            if (output.join('\n').length < MAX_OUTPUT_LENGTH) {
+                output.push(line);
+            }
+        });
+        context.setProp(consoleHandle, method, fn);
+        fn.dispose();
+    }
+    context.setProp(context.global, 'console', consoleHandle);
+    consoleHandle.dispose();
+}
+
+/**
+ * Run the program once with the given input
+ */
+async function runTestCase(
+    code: string,
+    input: string,
+    budget: { checks: number }
+): Promise<{ output: string; error?: string; failure?: TestCaseResult['failure'] }> {
+    const QuickJS = await getQuickJS();
+    const runtime = QuickJS.newRuntime();
+    runtime.setMemoryLimit(MEMORY_LIMIT_BYTES);
+    runtime.setMaxStackSize(STACK_LIMIT_BYTES);
+
+    const deadline = Date.now() + TEST_TIME_LIMIT_MS;
+    let checks = 0;
+    let timedOut = false;
+    runtime.setInterruptHandler(() => {
+        checks++;
+        budget.checks++;
+        timedOut = checks > TEST_CHECK_LIMIT || budget.checks > SUBMISSION_CHECK_LIMIT || Date.now() > deadline;
+        return timedOut;
+    });
+
+    const context = runtime.newContext();
+    const output: string[] = [];
+
+    try {
+        installConsole(context, output);
+        const inputHandle = context.newString(input);
+        context.setProp(context.global, 'input', inputHandle);
+        inputHandle.dispose();
+
+        const program = context.evalCode(code, 'solution.js');
+        if (!('value' in program)) {
+            const error = context.dump(program.error);
+            program.error.dispose();
+            return failure(error, timedOut, output);
+        }
+        program.value.dispose();
+
+        const call = context.evalCode('typeof solve === "function" ? solve(input) : undefined', 'harness.js');
+        if (!('value' in call)) {
+            const error = context.dump(call.error);
+            call.error.dispose();
+            return failure(error, timedOut, output);
+        }
+        const returned = context.dump(call.value);
+        call.value.dispose();
+
+        return { output: returned === undefined || returned === null ? output.join('\n') : formatValue(returned) };
+    } finally {
+        context.dispose();
+        runtime.dispose();
+    }
+}
+
+function failure(
+    error: any,
+    timedOut: boolean,
+    output: string[]
+): { output: string; error: string; failure: TestCaseResult['failure'] } {
+    const message = error && typeof error === 'object'
+        ? `${error.name || 'Error'}: ${error.message || ''}`.trim()
+        : String(error);
+
+    if (timedOut || /interrupted/i.test(message)) {
+        return { output: output.join('\n'), error: 'Time limit exceeded', failure: 'time-limit' };
+    }
+    if (/out of memory/i.test(message)) {
+        return { output: output.join('\n'), error: 'Memory limit exceeded', failure: 'memory-limit' };
+    }
+    return { output: output.join('\n'), error: message, failure: 'error' };
+}
+
+/**
+ * Grade a coding answer by running it against every test case
+ */
+export async function gradeCode(
+    content: CodingContent,
+    userAnswer: unknown,
+    validation: ValidationRules
+): Promise<CodeGradeResult> {
+    const code = typeof userAnswer === 'string' ? userAnswer : '';
+    const testCases = content.testCases || [];
+
+    if (!isRunnableLanguage(content.language)) {
+        return {
+            score: 0,
+            feedback: `Automatic grading is not available for ${content.language} yet.`,
+            testResults: [],
+        };
+    }
+    if (!code.trim()) {
+        return { score: 0, feedback: 'Submit your code to run the tests.', testResults: [] };
+    }
+    if (code.length > MAX_CODE_LENGTH) {
+        return { score: 0, feedback: `Your code is longer than ${MAX_CODE_LENGTH} characters.`, testResults: [] };
+    }
+    if (testCases.length === 0) {
+        return { score: 0, feedback: 'This exercise has no test cases.', testResults: [] };
+    }
+
+    const budget = { checks: 0 };
+    const testResults: TestCaseResult[] = [];
+
+    for (const [index, testCase] of testCases.entries()) {
+        const hidden = !!testCase.hidden;
+
+        const run = budget.checks < SUBMISSION_CHECK_LIMIT
+            ? await runTestCase(code, testCase.input, budget)
+            : { output: '', error: 'Time limit exceeded for the submission', failure: 'time-limit' as const };
+
+        const passed = !run.failure && normalizeOutput(run.output) === normalizeOutput(testCase.expectedOutput);
+        const result: TestCaseResult = {
+            index,
+            hidden,
+            passed,
+            ...(passed ? {} : { failure: run.failure || 'wrong-output' }),
+        };
+
+        // Hidden cases never reveal their input, expected output or what the program printed
+        if (!hidden) {
+            result.input = testCase.input;
+            result.expectedOutput = testCase.expectedOutput;
+            result.actualOutput = run.output.slice(0, MAX_OUTPUT_LENGTH);
+            if (run.error) result.error = run.error;
+        }
+        testResults.push(result);
+    }
+
+    const passedCount = testResults.filter(r => r.passed).length;
+    const allPassed = passedCount === testResults.length;
+    const score = allPassed ? 100 : validation.allowPartialCredit ? (passedCount / testResults.length) * 100 : 0;
+
+    const hiddenFailed = testResults.filter(r => r.hidden && !r.passed).length;
+    const feedback = allPassed
+        ? `All ${testResults.length} tests passed!`
+        : `${passedCount} of ${testResults.length} tests passed.` +
+          (hiddenFailed > 0 ? ` ${hiddenFailed} hidden test${hiddenFailed === 1 ? '' : 's'} failed — check edge cases.` : '');
+
+    return { score, feedback, testResults };
+}
@@ -0,0 +1,112 @@
+/**
+ * Conjugation Grader
+ * Scores a conjugation answer (ConjugationAnswer: subject -> form) one person at a time.
+ *
+ * Each form is compared like a typed answer (text-matcher) but without typo tolerance, since
+ * one letter is often the whole difference between two forms (hablo / habla). A form that is
+ * right apart from accents is "close" and earns closeAnswerCredit. Answers may repeat the
+ * subject ("yo hablé"), and key forms may list alternatives with a slash ("hablara/hablase").
+ * Without allowPartialCredit every person has to be right.
+ */
+
+import type { ConjugationAnswer, ConjugationContent, ConjugationFormResult, Exercise } from '../types/exercise';
+import { closeAnswerCredit, matchTextAnswer, normalizeAnswer, textMatchOptions } from './text-matcher';
+import type { TextMatchOptions } from './text-matcher';
+
+export interface ConjugationGradeResult {
+    score: number;
+    feedback: string;
+    forms: ConjugationFormResult[];
+}
+
+/**
+ * Subject -> form from an answer given as an object, an array in subject order,
+ * or a string with one form per line (or comma-separated)
+ */
+export function conjugationAnswer(userAnswer: unknown, subjects: string[]): ConjugationAnswer {
+    if (userAnswer && typeof userAnswer === 'object' && !Array.isArray(userAnswer)) {
+        return Object.fromEntries(
+            Object.entries(userAnswer as Record<string, unknown>).map(([subject, form]) => [subject, String(form ?? '')])
+        );
+    }
+
+    const list = Array.isArray(userAnswer)
+        ? userAnswer
+        : typeof userAnswer === 'string' ? userAnswer.split(userAnswer.includes('\n') ? '\n' : ',') : [];
+    return Object.fromEntries(subjects.map((subject, i) => [subject, String(list[i] ?? '').trim()]));
+}
+
+/**
+ * The learner's form for a subject, matching subject keys loosely ("El/Ella" for "él/ella")
+ */
+function formFor(answer: ConjugationAnswer, subject: string, options: TextMatchOptions): string {
+    if (subject in answer) return answer[subject];
+    const key = normalizeAnswer(subject, options, true);
+    const found = Object.keys(answer).find(k => normalizeAnswer(k, options, true) === key);
+    return found ? answer[found] : '';
+}
+
+/**
+ * Drop the subject pronoun when the learner wrote it before the form ("yo hablé" -> "hablé")
+ */
+function withoutSubject(form: string, subject: string, options: TextMatchOptions): string {
+    const words = form.trim().split(/\s+/);
+    const pronouns = subject.split('/').map(p => normalizeAnswer(p, options, true)).filter(Boolean);
+    for (const pronoun of pronouns) {
+        const length = pronoun.split(' ').length;
+        if (words.length > length && normalizeAnswer(words.slice(0, length).join(' '), options, true) === pronoun) {
+            return words.slice(length).join(' ');
+        }
+    }
+    return form;
+}
+
+/**
+ * Grade a conjugation answer person by person
+ */
+export function gradeConjugation(exercise: Exercise, userAnswer: unknown): ConjugationGradeResult {
+    const content = exercise.problem.content as ConjugationContent;
+    const key = (exercise.solution.correctAnswer || {}) as ConjugationAnswer;
+    const subjects = content.subjects && content.subjects.length > 0 ? content.subjects : Object.keys(key);
+
+    if (subjects.length === 0) {
+        return { score: 0, feedback: 'This exercise has no answer key.', forms: [] };
+    }
+
+    const options: TextMatchOptions = {
+        ...textMatchOptions(exercise),
+        mode: exercise.validation.textMatching === 'exact' ? 'exact' : 'normalized',
+        ignoreArticles: false,
+    };
+    const answer = conjugationAnswer(userAnswer, subjects);
+    const closeCredit = closeAnswerCredit(exercise);
+
+    const forms: ConjugationFormResult[] = subjects.map(subject => {
+        const given = withoutSubject(formFor(answer, subject, options), subject, options);
+        if (!given.trim()) {
+            return { subject, status: 'missing', credit: 0 };
+        }
+
+        const accepted = String(formFor(key, subject, options)).split('/').map(f => f.trim()).filter(Boolean);
+        const match = matchTextAnswer(given, accepted, options);
+        if (match.status === 'exact' || match.status === 'equivalent') {
+            return { subject, status: 'correct', credit: 100, given };
+        }
+        if (match.status === 'close') {
+            return { subject, status: 'accents', credit: closeCredit, given, expected: match.matched };
+        }
+        return { subject, status: 'wrong', credit: 0, given };
+    });
+
+    const correct = forms.filter(f => f.status === 'correct').length;
+    const earned = forms.reduce((sum, f) => sum + f.credit, 0) / forms.length;
+    const score = exercise.validation.allowPartialCredit ? earned : (correct === forms.length ? 100 : 0);
+
+    const accents = forms.filter(f => f.status === 'accents');
+    const feedback = correct === forms.length
+        ? `Correct! All ${forms.length} forms of ${content.verb} are right.`
+        : `${correct} of ${forms.length} forms are right.` +
+          (accents.length > 0 ? ` Check the accents: ${accents.map(f => `${f.subject} ${f.expected}`).join(', ')}.` : '');
+
+    return { score, feedback, forms };
+}
@@ -0,0 +1,512 @@
+/**
+ * Content Validator
+ * Schema checks for AI-generated exercise content and solution/content agreement.
+ * Errors are phrased so they can be fed back to the model in a repair turn.
+ */
+
+import type {
+    ExerciseType,
+    ProblemContent,
+    SolutionAnswer,
+} from '../types/exercise';
+import { safeEvaluate, scopeFromVariables } from './expression-evaluator';
+
+type ContentType = ProblemContent['type'];
+
+export interface ContentValidationResult {
+    valid: boolean;
+    errors: string[];
+}
+
+// =============================================================================
+// FIELD HELPERS
+// =============================================================================
+
+function isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function requireString(content: any, field: string, errors: string[]): void {
+    if (!isNonEmptyString(content[field])) {
+        errors.push(`content.${field} must be a non-empty string`);
+    }
+}
+
+function requireIdTextList(content: any, field: string, minLength: number, errors: string[]): void {
+    const list = content[field];
+    if (!Array.isArray(list) || list.length < minLength) {
+        errors.push(`content.${field} must be an array with at least ${minLength} items`);
+        return;
+    }
+
+    const seen = new Set<string>();
+    list.forEach((item: any, i: number) => {
+        if (!item || !isNonEmptyString(item.id) || !isNonEmptyString(item.text)) {
+            errors.push(`content.${field}[${i}] must have string "id" and "text" fields`);
+            return;
+        }
+        if (seen.has(item.id)) {
+            errors.push(`content.${field} has duplicate id "${item.id}"`);
+        }
+        seen.add(item.id);
+    });
+}
+
+function idsOf(list: unknown): string[] {
+    return Array.isArray(list) ? list.map((item: any) => item?.id).filter(isNonEmptyString) : [];
+}
+
+function countBlanks(template: string): number {
+    return (template.match(/\[BLANK\]/g) || []).length;
+}
+
+// =============================================================================
+// CONTENT VALIDATORS (one per ProblemContent variant)
+// =============================================================================
+
+const contentValidators: Record<ContentType, (content: any) => string[]> = {
+    'multiple-choice': (content) => {
+        const errors: string[] = [];
+        requireString(content, 'question', errors);
+        requireIdTextList(content, 'options', 2, errors);
+        if (typeof content.multiSelect !== 'boolean') {
+            errors.push('content.multiSelect must be true or false');
+        }
+        if (Array.isArray(content.options)) {
+            content.options.forEach((option: any, i: number) => {
+                if (option?.rationale !== undefined && typeof option.rationale !== 'string') {
+                    errors.push(`content.options[${i}].rationale must be a string`);
+                }
+            });
+        }
+        return errors;
+    },
+
+    'fill-blank': (content) => {
+        const errors: string[] = [];
+        requireString(content, 'template', errors);
+        if (!Number.isInteger(content.blankCount) || content.blankCount < 1) {
+            errors.push('content.blankCount must be a positive integer');
+        } else if (isNonEmptyString(content.template) && countBlanks(content.template) !== content.blankCount) {
+            errors.push(
+                `content.template contains ${countBlanks(content.template)} [BLANK] markers but blankCount is ${content.blankCount}`
+            );
+        }
+        if (content.wordBank !== undefined && !isStringArray(content.wordBank)) {
+            errors.push('content.wordBank must be an array of strings');
+        }
+        return errors;
+    },
+
+    'matching': (content) => {
+        const errors: string[] = [];
+        requireIdTextList(content, 'leftColumn', 2, errors);
+        requireIdTextList(content, 'rightColumn', 2, errors);
+        return errors;
+    },
+
+    'ordering': (content) => {
+        const errors: string[] = [];
+        requireIdTextList(content, 'items', 2, errors);
+        requireString(content, 'orderBy', errors);
+        return errors;
+    },
+
+    'true-false': (content) => {
+        const errors: string[] = [];
+        requireIdTextList(content, 'statements', 1, errors);
+        return errors;
+    },
+
+    'short-answer': (content) => {
+        const errors: string[] = [];
+        requireString(content, 'question', errors);
+        if (typeof content.maxLength !== 'number' || content.maxLength <= 0) {
+            errors.push('content.maxLength must be a positive number');
+        }
+        return errors;
+    },
+
+    'long-answer': (content) => {
+        const errors: string[] = [];
+        requireString(content, 'question', errors);
+        if (content.rubricPoints !== undefined && !isStringArray(content.rubricPoints)) {
+            errors.push('content.rubricPoints must be an array of strings');
+        }
+        if (content.minLength !== undefined && typeof content.minLength !== 'number') {
+            errors.push('content.minLength must be a number');
+        }
+        if (content.maxLength !== undefined && typeof content.maxLength !== 'number') {
+            errors.push('content.maxLength must be a number');
+        }
+        if (typeof content.minLength === 'number' && typeof content.maxLength === 'number'
+            && content.minLength > content.maxLength) {
+            errors.push('content.minLength must not exceed content.maxLength');
+        }
+        return errors;
+    },
+
+    'proof': (content) => {
+        const errors: string[] = [];
+        requireString(content, 'statement', errors);
+        if (!isStringArray(content.given)) {
+            errors.push('content.given must be an array of strings');
+        }
+        if (content.proofMethod !== undefined
+            && !['direct', 'contradiction', 'induction', 'contrapositive'].includes(content.proofMethod)) {
+            errors.push('content.proofMethod must be one of direct, contradiction, induction, contrapositive');
+        }
+        return errors;
+    },
+
+    'calculation': (content) => {
+        const errors: string[] = [];
+        requireString(content, 'problem', errors);
+        if (content.variables !== undefined) {
+            const vars = content.variables;
+            if (!vars || typeof vars !== 'object' || Array.isArray(vars)
+                || !Object.values(vars).every(v => typeof v === 'string' || typeof v === 'number')) {
+                errors.push('content.variables must be an object mapping names to numbers or strings');
+            }
+        }
+        if (content.units !== undefined && typeof content.units !== 'string') {
+            errors.push('content.units must be a string');
+        }
+        if (content.sigFigs !== undefined && (!Number.isInteger(content.sigFigs) || content.sigFigs < 1)) {
+            errors.push('content.sigFigs must be a positive integer');
+        }
+        return errors;
+    },
+
+    'translation': (content) => {
+        const errors: string[] = [];
+        requireString(content, 'sourceText', errors);
+        requireString(content, 'sourceLanguage', errors);
+        requireString(content, 'targetLanguage', errors);
+        if (content.register !== undefined && !['formal', 'informal', 'neutral'].includes(content.register)) {
+            errors.push('content.register must be one of formal, informal, neutral');
+        }
+        return errors;
+    },
+
+    'conjugation': (content) => {
+        const errors: string[] = [];
+        requireString(content, 'verb', errors);
+        requireString(content, 'language', errors);
+        requireString(content, 'tense', errors);
+        if (!isStringArray(content.subjects) || content.subjects.length === 0) {
+            errors.push('content.subjects must be a non-empty array of strings');
+        }
+        return errors;
+    },
+
+    'diagram': (content) => {
+        const errors: string[] = [];
+        requireString(content, 'description', errors);
+        if (!Array.isArray(content.markers) || content.markers.length === 0) {
+            errors.push('content.markers must be a non-empty array');
+        } else {
+            content.markers.forEach((m: any, i: number) => {
+                if (!m || !isNonEmptyString(m.id) || !isNonEmptyString(m.position)) {
+                    errors.push(`content.markers[${i}] must have string "id" and "position" fields`);
+                }
+            });
+        }
+        if (content.labelBank !== undefined && !isStringArray(content.labelBank)) {
+            errors.push('content.labelBank must be an array of strings');
+        }
+        return errors;
+    },
+
+    'coding': (content) => {
+        const errors: string[] = [];
+        requireString(content, 'description', errors);
+        requireString(content, 'language', errors);
+        if (!Array.isArray(content.testCases) || content.testCases.length === 0) {
+            errors.push('content.testCases must be a non-empty array');
+        } else {
+            content.testCases.forEach((tc: any, i: number) => {
+                if (!tc || typeof tc.input !== 'string' || typeof tc.expectedOutput !== 'string') {
+                    errors.push(`content.testCases[${i}] must have string "input" and "expectedOutput" fields`);
+                }
+            });
+        }
+        return errors;
+    },
+
+    'derivation': (content) => {
+        const errors: string[] = [];
+        requireString(content, 'startingPoint', errors);
+        requireString(content, 'target', errors);
+        if (content.assumptions !== undefined && !isStringArray(content.assumptions)) {
+            errors.push('content.assumptions must be an array of strings');
+        }
+        return errors;
+    },
+};
+
+// =============================================================================
+// SOLUTION / CONTENT AGREEMENT
+// =============================================================================
+
+const solutionValidators: Record<ContentType, (content: any, answer: unknown) => string[]> = {
+    'multiple-choice': (content, answer) => {
+        const optionIds = idsOf(content.options);
+        if (content.multiSelect) {
+            if (!isStringArray(answer) || answer.length === 0) {
+                return ['solution.correctAnswer must be a non-empty array of option ids for multiSelect questions'];
+            }
+            const unknown = answer.filter(id => !optionIds.includes(id));
+            return unknown.length > 0
+                ? [`solution.correctAnswer contains ids not in options: ${unknown.join(', ')} (valid ids: ${optionIds.join(', ')})`]
+                : [];
+        }
+        if (typeof answer !== 'string' || !optionIds.includes(answer)) {
+            return [`solution.correctAnswer must be exactly one of the option ids (${optionIds.join(', ')}), got ${JSON.stringify(answer)}`];
+        }
+        return [];
+    },
+
+    'fill-blank': (content, answer) => {
+        if (!isStringArray(answer)) {
+            return ['solution.correctAnswer must be an array of strings, one per [BLANK]'];
+        }
+        const errors: string[] = [];
+        if (answer.length !== content.blankCount) {
+            errors.push(`solution.correctAnswer has ${answer.length} entries but blankCount is ${content.blankCount}`);
+        }
+        if (isStringArray(content.wordBank) && content.wordBank.length > 0) {
+            const missing = answer.filter(a => !content.wordBank.includes(a));
+            if (missing.length > 0) {
+                errors.push(`solution.correctAnswer values missing from wordBank: ${missing.join(', ')}`);
+            }
+        }
+        return errors;
+    },
+
+    'matching': (content, answer) => {
+        if (!answer || typeof answer !== 'object' || Array.isArray(answer)) {
+            return ['solution.correctAnswer must be an object mapping leftColumn ids to rightColumn ids'];
+        }
+        const errors: string[] = [];
+        const leftIds = idsOf(content.leftColumn);
+        const rightIds = idsOf(content.rightColumn);
+        const pairs = answer as Record<string, unknown>;
+        for (const id of leftIds) {
+            if (!(id in pairs)) errors.push(`solution.correctAnswer is missing a match for left id "${id}"`);
+        }
+        for (const [left, right] of Object.entries(pairs)) {
+            if (!leftIds.includes(left)) errors.push(`solution.correctAnswer key "${left}" is not a leftColumn id`);
+            if (typeof right !== 'string' || !rightIds.includes(right)) {
+                errors.push(`solution.correctAnswer["${left}"] must be a rightColumn id (${rightIds.join(', ')})`);
+            }
+        }
+        return errors;
+    },
+
+    'ordering': (content, answer) => {
+        const itemIds = idsOf(content.items);
+        if (!isStringArray(answer)) {
+            return ['solution.correctAnswer must be an array of item ids in the correct order'];
+        }
+        const sameSet = answer.length === itemIds.length
+            && new Set(answer).size === answer.length
+            && answer.every(id => itemIds.includes(id));
+        return sameSet
+            ? []
+            : [`solution.correctAnswer must list every item id exactly once (${itemIds.join(', ')})`];
+    },
+
+    'true-false': (content, answer) => {
+        const count = Array.isArray(content.statements) ? content.statements.length : 0;
+        if (!Array.isArray(answer) || !answer.every(v => typeof v === 'boolean')) {
+            return ['solution.correctAnswer must be an array of booleans, one per statement'];
+        }
+        return answer.length === count
+            ? []
+            : [`solution.correctAnswer has ${answer.length} booleans but there are ${count} statements`];
+    },
+
+    'short-answer': (content, answer) => {
+        if (!isNonEmptyString(answer)) {
+            return ['solution.correctAnswer must be a non-empty string'];
+        }
+        return typeof content.maxLength === 'number' && answer.length > content.maxLength
+            ? [`solution.correctAnswer is longer than content.maxLength (${content.maxLength})`]
+            : [];
+    },
+
+    'long-answer': (_content, answer) =>
+        isNonEmptyString(answer) ? [] : ['solution.correctAnswer must be a model answer string'],
+
+    'proof': (_content, answer) =>
+        isNonEmptyString(answer) ? [] : ['solution.correctAnswer must be the complete proof as a string'],
+
+    'calculation': (_content, answer) => {
+        if (typeof answer === 'number' && Number.isFinite(answer)) return [];
+        if (answer && typeof answer === 'object' && !Array.isArray(answer)) {
+            const { value, tolerance } = answer as { value?: unknown; tolerance?: unknown };
+            if (typeof value === 'number' && typeof tolerance === 'number') return [];
+        }
+        return [`solution.correctAnswer must be a number or { "value": number, "tolerance": number }, got ${JSON.stringify(answer)}`];
+    },
+
+    'translation': (_content, answer) =>
+        isNonEmptyString(answer) ? [] : ['solution.correctAnswer must be the reference translation string'],
+
+    'conjugation': (content, answer) => {
+        if (!answer || typeof answer !== 'object' || Array.isArray(answer)) {
+            return ['solution.correctAnswer must be an object mapping each subject to its conjugated form'];
+        }
+        const forms = answer as Record<string, unknown>;
+        const subjects: string[] = isStringArray(content.subjects) ? content.subjects : [];
+        const missing = subjects.filter(s => !isNonEmptyString(forms[s]));
+        return missing.length > 0
+            ? [`solution.correctAnswer is missing forms for: ${missing.join(', ')}`]
+            : [];
+    },
+
+    'diagram': (content, answer) => {
+        if (!answer || typeof answer !== 'object' || Array.isArray(answer)) {
+            return ['solution.correctAnswer must be an object mapping each marker id to its label'];
+        }
+        const labels = answer as Record<string, unknown>;
+        const missing = idsOf(content.markers).filter(id => !isNonEmptyString(labels[id]));
+        return missing.length > 0
+            ? [`solution.correctAnswer is missing labels for markers: ${missing.join(', ')}`]
+            : [];
+    },
+
+    'coding': (_content, answer) =>
+        isNonEmptyString(answer) ? [] : ['solution.correctAnswer must be a reference solution string'],
+
+    'derivation': (_content, answer) =>
+        isNonEmptyString(answer) ? [] : ['solution.correctAnswer must be the derived result as a string'],
+};
+
+// =============================================================================
+// NORMALISATION
+// =============================================================================
+
+/**
+ * Coerce common, unambiguous shape slips before validation
+ * (e.g. a single fill-blank answer given as a string, numeric strings for calculations)
+ */
+export function normalizeSolutionAnswer(content: any, answer: unknown): unknown {
+    switch (content?.type) {
+        case 'fill-blank':
+            return typeof answer === 'string' && content.blankCount === 1 ? [answer] : answer;
+
+        case 'true-false':
+            return Array.isArray(answer)
+                ? answer.map(v => (v === 'true' ? true : v === 'false' ? false : v))
+                : answer;
+
+        case 'calculation': {
+            if (typeof answer !== 'string') return answer;
+            let text = answer.trim();
+            if (isNonEmptyString(content.units) && text.endsWith(content.units)) {
+                text = text.slice(0, -content.units.length).trim();
+            }
+            return /^[-+]?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(text) ? parseFloat(text) : answer;
+        }
+
+        case 'conjugation':
+            if (isStringArray(answer) && isStringArray(content.subjects) && answer.length === content.subjects.length) {
+                return Object.fromEntries(content.subjects.map((s: string, i: number) => [s, answer[i]]));
+            }
+            return answer;
+
+        default:
+            return answer;
+    }
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Validate problem content against its ProblemContent interface
+ */
+export function validateProblemContent(content: unknown): string[] {
+    if (!content || typeof content !== 'object') {
+        return ['content must be an object'];
+    }
+    const type = (content as { type?: unknown }).type;
+    const validator = contentValidators[type as ContentType];
+    if (!validator) {
+        return [`content.type ${JSON.stringify(type)} is not a supported exercise type`];
+    }
+    return validator(content);
+}
+
+/**
+ * Check that the solution's correctAnswer agrees with the problem content
+ */
+export function validateSolutionAgainstContent(content: ProblemContent, answer: SolutionAnswer | unknown): string[] {
+    const validator = solutionValidators[content.type];
+    return validator ? validator(content, answer) : [];
+}
+
+/**
+ * Check that a calculation's solution.formula evaluates with the content's variables
+ */
+export function validateCalculationFormula(content: ProblemContent, formula: unknown): string[] {
+    if (content.type !== 'calculation') return [];
+    if (!isNonEmptyString(formula)) {
+        return ['solution.formula must be an expression that computes the answer from content.variables'];
+    }
+    const scope = scopeFromVariables(content.variables);
+    const { error } = safeEvaluate(formula, scope);
+    if (error) {
+        const names = Object.keys(scope);
+        return [`solution.formula could not be evaluated: ${error} (available variables: ${names.length > 0 ? names.join(', ') : 'none'})`];
+    }
+    return [];
+}
+
+/**
+ * Validate a parsed AI response (instruction, content, solution, hints)
+ * When allowedTypes is given, content.type must be one of them
+ */
+export function validateGeneratedExercise(parsed: any, allowedTypes?: ExerciseType[]): ContentValidationResult {
+    const errors: string[] = [];
+
+    if (!parsed || typeof parsed !== 'object') {
+        return { valid: false, errors: ['response must be a JSON object'] };
+    }
+
+    if (!isNonEmptyString(parsed.instruction)) {
+        errors.push('instruction must be a non-empty string');
+    }
+
+    const contentErrors = validateProblemContent(parsed.content);
+    if (contentErrors.length === 0 && allowedTypes?.length && !allowedTypes.includes(parsed.content.type)) {
+        contentErrors.push(`content.type "${parsed.content.type}" was not requested; use one of: ${allowedTypes.join(', ')}`);
+    }
+    errors.push(...contentErrors);
+
+    if (!parsed.solution || typeof parsed.solution !== 'object') {
+        errors.push('solution must be an object with correctAnswer and explanation');
+    } else {
+        if (!isNonEmptyString(parsed.solution.explanation)) {
+            errors.push('solution.explanation must be a non-empty string');
+        }
+        // Only check agreement once the content itself is well-formed
+        if (contentErrors.length === 0) {
+            errors.push(...validateSolutionAgainstContent(parsed.content, parsed.solution.correctAnswer));
+            errors.push(...validateCalculationFormula(parsed.content, parsed.solution.formula));
+        }
+    }
+
+    if (parsed.hints !== undefined && !isStringArray(parsed.hints)) {
+        errors.push('hints must be an array of strings');
+    }
+
+    return { valid: errors.length === 0, errors };
+}
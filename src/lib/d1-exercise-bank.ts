@@ -4,12 +4,14 @@
  */
 
 import type {
+    ContentRating,
     Exercise,
+    ExerciseType,
     Subject,
     SubjectCategory,
     DifficultyLevel,
 } from '../types/exercise';
-import { determineContentRating } from '../types/exercise';
+import { determineContentRating, getDifficultyPoints } from '../types/exercise';
 
 interface D1Database {
     prepare(query: string): {
@@ -72,10 +74,7 @@ export async function getExerciseFromD1(
         // Get random exercise by ordering randomly and limiting to 1
         query += ` ORDER BY RANDOM() LIMIT 1`;
 
-        let stmt = db.prepare(query);
-        for (const binding of bindings) {
-            stmt = stmt.bind(binding) as any;
-        }
+        const stmt = db.prepare(query).bind(...bindings);
 
         const row = await stmt.first<ExerciseRow>();
 
@@ -118,10 +117,7 @@ export async function getExercisesFromD1(
         query += ` ORDER BY RANDOM() LIMIT ?`;
         bindings.push(count);
 
-        let stmt = db.prepare(query);
-        for (const binding of bindings) {
-            stmt = stmt.bind(binding) as any;
-        }
+        const stmt = db.prepare(query).bind(...bindings);
 
         const result = await stmt.all<ExerciseRow>();
         const rows = result.results || [];
@@ -151,10 +147,7 @@ export async function exportExercisesToJSON(
 
         query += ` ORDER BY subject, category, topic, difficulty`;
 
-        let stmt = db.prepare(query);
-        for (const binding of bindings) {
-            stmt = stmt.bind(binding) as any;
-        }
+        const stmt = db.prepare(query).bind(...bindings);
 
         const result = await stmt.all<ExerciseRow>();
         const rows = result.results || [];
@@ -172,6 +165,38 @@ export async function exportExercisesToJSON(
     }
 }
 
+/** Ratings, least strict first, with the youngest age each allows */
+const RATING_MIN_AGES: Array<[ContentRating, number]> = [
+    ['all-ages', 0],
+    ['age-8-plus', 8],
+    ['age-12-plus', 12],
+    ['age-16-plus', 16],
+    ['adult', 18],
+];
+
+/** Curated content_rating codes; E10 and T round up to the next stricter rating */
+const STORED_RATINGS: Record<string, ContentRating> = {
+    E: 'all-ages',
+    E10: 'age-12-plus',
+    T: 'age-16-plus',
+    M: 'adult',
+};
+
+/**
+ * The row's curated rating (content_rating and min_age, whichever is stricter), or null when it has none
+ */
+function storedContentRating(row: ExerciseRow): ContentRating | null {
+    const ranks: number[] = [];
+    const code = row.content_rating ? STORED_RATINGS[row.content_rating] || row.content_rating : null;
+    const codeRank = RATING_MIN_AGES.findIndex(([rating]) => rating === code);
+    if (codeRank >= 0) ranks.push(codeRank);
+    if (row.min_age > 0) {
+        const ageRank = RATING_MIN_AGES.findIndex(([, age]) => age >= row.min_age);
+        ranks.push(ageRank >= 0 ? ageRank : RATING_MIN_AGES.length - 1);
+    }
+    return ranks.length > 0 ? RATING_MIN_AGES[Math.max(...ranks)][0] : null;
+}
+
 /**
  * Convert D1 row to Exercise object
  */
@@ -185,23 +210,38 @@ function rowToExercise(
     const solution = JSON.parse(row.solution_json);
     const hints = row.hints_json ? JSON.parse(row.hints_json) : [];
     const tags = row.tags_json ? JSON.parse(row.tags_json) : [];
+    const difficulty = row.difficulty as DifficultyLevel;
+    const resolvedCategory = (row.category || category || 'general') as SubjectCategory;
+    const resolvedTopic = row.topic || topic || 'general';
 
     return {
         id: row.id,
         subject,
-        category: (row.category || category || 'general') as SubjectCategory,
-        topic: row.topic || topic || 'general',
-        difficulty: row.difficulty as DifficultyLevel,
-        type: row.type as any,
-        instruction: row.instruction,
-        content,
+        category: resolvedCategory,
+        topic: resolvedTopic,
+        difficulty,
+        type: row.type as ExerciseType,
+        problem: {
+            instruction: row.instruction,
+            content,
+            maxPoints: getDifficultyPoints(difficulty),
+        },
         solution,
         hints,
-        estimatedTime: 120,
-        tags,
-        contentRating: row.content_rating as any || 'E',
-        minimumAge: row.min_age || 0,
-        createdAt: new Date().toISOString(),
-        generatedBy: 'database',
+        validation: {
+            passingScore: 70,
+            allowPartialCredit: true,
+            caseSensitive: false,
+            hintPenalty: 5,
+        },
+        metadata: {
+            createdAt: new Date().toISOString(),
+            generatedBy: 'database',
+            contentRating: storedContentRating(row) ?? determineContentRating(subject, resolvedCategory, resolvedTopic),
+            tags,
+            estimatedTime: 120,
+            language: 'en',
+            version: 1,
+        },
     };
 }
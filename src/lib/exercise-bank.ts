@@ -12,7 +12,7 @@ import type {
     FillBlankContent,
     CalculationContent,
 } from '../types/exercise';
-import { determineContentRating } from '../types/exercise';
+import { determineContentRating, getDifficultyPoints } from '../types/exercise';
 
 interface FallbackExerciseTemplate {
     topic: string;
@@ -414,7 +414,7 @@ export function templateToExercise(
         problem: {
             instruction: template.instruction,
             content: template.content,
-            maxPoints: template.difficulty === 'beginner' ? 10 : template.difficulty === 'intermediate' ? 20 : 30,
+            maxPoints: getDifficultyPoints(template.difficulty),
         },
         solution: template.solution,
         hints: template.hints,
@@ -0,0 +1,212 @@
+/**
+ * Exercise Pool Cache
+ * Holds many generated exercises per request key in EXERCISES_KV, serves them in rotation
+ * and skips exercises a learner has already seen (tracked in PROGRESS_KV).
+ *
+ * KV is eventually consistent, so concurrent writers may occasionally drop an addition
+ * or repeat an exercise; the pool is a cache, not a source of truth.
+ *
+ * Exercises are dropped from the pool before the exercise store forgets them, so anything
+ * served can still be validated for at least the lifetime of its KV copy.
+ */
+
+import type { Env, Exercise } from '../types/exercise';
+import { EXERCISE_KV_TTL_SECONDS, exerciseExpiresAt } from './exercise-store';
+import { isNearDuplicate } from './text-similarity';
+
+/** Maximum exercises kept per pool key (oldest are evicted first) */
+export const POOL_MAX_SIZE = 50;
+
+/** Refill when a learner has fewer unseen exercises than this left */
+export const POOL_REFILL_THRESHOLD = 5;
+
+/** Exercises generated per background refill */
+export const POOL_REFILL_BATCH = 5;
+
+/** How long a learner's seen-list is remembered (30 days) */
+const SEEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+/** Cap on remembered exercise ids per learner and pool */
+const SEEN_MAX_IDS = 500;
+
+/** Lock that stops several requests refilling the same pool at once */
+const REFILL_LOCK_TTL_SECONDS = 120;
+
+/** Exercises from these sources are not AI-generated and never pooled */
+const NON_POOLABLE_SOURCES = ['fallback', 'static-bank', 'database'];
+
+interface ExercisePool {
+    exercises: Exercise[];
+    /** Rotation position for the next learner */
+    cursor: number;
+    updatedAt: string;
+}
+
+export interface PoolServeResult {
+    exercises: Exercise[];
+    /** Exercises in the pool the learner has not seen after this serve */
+    unseenRemaining: number;
+    poolSize: number;
+}
+
+function poolStorageKey(poolKey: string): string {
+    return `pool:${poolKey}`;
+}
+
+function seenStorageKey(poolKey: string, userId: string): string {
+    return `seen:${userId}:${poolKey}`;
+}
+
+function poolTtl(env: Env): number {
+    return parseInt(env.CACHE_TTL_SECONDS) || 86400;
+}
+
+async function readPool(env: Env, poolKey: string): Promise<ExercisePool> {
+    const raw = env.EXERCISES_KV ? await env.EXERCISES_KV.get(poolStorageKey(poolKey)) : null;
+    if (!raw) {
+        return { exercises: [], cursor: 0, updatedAt: new Date().toISOString() };
+    }
+    return JSON.parse(raw) as ExercisePool;
+}
+
+async function writePool(env: Env, poolKey: string, pool: ExercisePool): Promise<void> {
+    if (!env.EXERCISES_KV) return;
+    pool.updatedAt = new Date().toISOString();
+    await env.EXERCISES_KV.put(poolStorageKey(poolKey), JSON.stringify(pool), {
+        expirationTtl: poolTtl(env),
+    });
+}
+
+async function readSeen(env: Env, poolKey: string, userId?: string): Promise<string[]> {
+    if (!userId || !env.PROGRESS_KV) return [];
+    const raw = await env.PROGRESS_KV.get(seenStorageKey(poolKey, userId));
+    return raw ? JSON.parse(raw) as string[] : [];
+}
+
+/**
+ * Whether an exercise stays in the store long enough after being served to be graded
+ */
+function isServable(exercise: Exercise, now: number = Date.now()): boolean {
+    const expiresAt = exerciseExpiresAt(exercise);
+    return expiresAt === null || expiresAt - now >= EXERCISE_KV_TTL_SECONDS * 1000;
+}
+
+/**
+ * Drop exercises close to the end of their retention; returns how many were dropped
+ */
+function dropExpiring(pool: ExercisePool): number {
+    const before = pool.exercises.length;
+    pool.exercises = pool.exercises.filter(ex => isServable(ex));
+    const dropped = before - pool.exercises.length;
+    if (dropped > 0) {
+        pool.cursor = pool.exercises.length > 0 ? pool.cursor % pool.exercises.length : 0;
+    }
+    return dropped;
+}
+
+/**
+ * Whether an exercise came from an AI model (and so belongs in a pool).
+ * Exercises whose answer key failed verification are never re-served.
+ */
+export function isPoolable(exercise: Exercise): boolean {
+    const source = exercise.metadata?.generatedBy;
+    return !!source && !NON_POOLABLE_SOURCES.includes(source) && exercise.metadata.verification?.status !== 'mismatch';
+}
+
+/**
+ * Serve up to `count` exercises the learner has not seen, in rotation order
+ */
+export async function takeFromPool(
+    env: Env,
+    poolKey: string,
+    count: number,
+    userId?: string
+): Promise<PoolServeResult> {
+    const pool = await readPool(env, poolKey);
+    const dropped = dropExpiring(pool);
+    if (pool.exercises.length === 0) {
+        if (dropped > 0) await writePool(env, poolKey, pool);
+        return { exercises: [], unseenRemaining: 0, poolSize: 0 };
+    }
+
+    const seen = new Set(await readSeen(env, poolKey, userId));
+    const size = pool.exercises.length;
+    const start = pool.cursor % size;
+
+    // Walk the pool from the rotation cursor so consecutive learners get different exercises
+    const rotated = [...pool.exercises.slice(start), ...pool.exercises.slice(0, start)];
+    const unseen = rotated.filter(ex => !seen.has(ex.id));
+    const served = unseen.slice(0, count);
+
+    if (served.length > 0) {
+        pool.cursor = (start + served.length) % size;
+    }
+    if (served.length > 0 || dropped > 0) {
+        await writePool(env, poolKey, pool);
+    }
+
+    return {
+        exercises: served,
+        unseenRemaining: unseen.length - served.length,
+        poolSize: size,
+    };
+}
+
+/**
+ * Add newly generated exercises to a pool, skipping duplicates and evicting the oldest
+ */
+export async function addToPool(env: Env, poolKey: string, exercises: Exercise[]): Promise<number> {
+    const candidates = exercises.filter(ex => isPoolable(ex) && isServable(ex));
+    if (candidates.length === 0 || !env.EXERCISES_KV) return 0;
+
+    const pool = await readPool(env, poolKey);
+    const dropped = dropExpiring(pool);
+    let added = 0;
+
+    for (const exercise of candidates) {
+        if (pool.exercises.some(ex => ex.id === exercise.id) || isNearDuplicate(exercise, pool.exercises)) {
+            continue;
+        }
+        pool.exercises.push(exercise);
+        added++;
+    }
+
+    if (pool.exercises.length > POOL_MAX_SIZE) {
+        const overflow = pool.exercises.length - POOL_MAX_SIZE;
+        pool.exercises = pool.exercises.slice(overflow);
+        pool.cursor = Math.max(0, pool.cursor - overflow);
+    }
+
+    if (added > 0 || dropped > 0) {
+        await writePool(env, poolKey, pool);
+    }
+    return added;
+}
+
+/**
+ * Remember which exercises a learner has been served from a pool
+ */
+export async function markSeen(env: Env, poolKey: string, userId: string | undefined, exerciseIds: string[]): Promise<void> {
+    if (!userId || !env.PROGRESS_KV || exerciseIds.length === 0) return;
+
+    const seen = await readSeen(env, poolKey, userId);
+    const merged = [...seen.filter(id => !exerciseIds.includes(id)), ...exerciseIds].slice(-SEEN_MAX_IDS);
+
+    await env.PROGRESS_KV.put(seenStorageKey(poolKey, userId), JSON.stringify(merged), {
+        expirationTtl: SEEN_TTL_SECONDS,
+    });
+}
+
+/**
+ * Claim the refill lock for a pool; returns false if another request already holds it
+ */
+export async function claimRefillLock(env: Env, poolKey: string): Promise<boolean> {
+    if (!env.EXERCISES_KV) return false;
+
+    const lockKey = `pool-refill:${poolKey}`;
+    if (await env.EXERCISES_KV.get(lockKey)) {
+        return false;
+    }
+    await env.EXERCISES_KV.put(lockKey, new Date().toISOString(), { expirationTtl: REFILL_LOCK_TTL_SECONDS });
+    return true;
+}
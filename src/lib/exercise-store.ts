@@ -0,0 +1,166 @@
+/**
+ * Exercise Store
+ * Write-through persistence for every exercise served, so /validate, /hints and /solution
+ * can find it by id. KV (`exercise:{id}`) is the fast path; the D1 `exercises` table is
+ * the durable copy and re-hydrates KV on a miss.
+ *
+ * Retention:
+ * - KV copies expire after EXERCISE_KV_TTL_SECONDS
+ * - D1 rows expire per source (see RETENTION_DAYS) and are removed by purgeExpiredExercises
+ * - Exercises with recorded submissions in user_progress or review_queue are never purged
+ */
+
+import type { Env, Exercise } from '../types/exercise';
+
+/** KV copy lifetime (7 days) */
+export const EXERCISE_KV_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/** D1 retention in days by exercise source (metadata.generatedBy) */
+const RETENTION_DAYS: Record<string, number> = {
+    fallback: 1,
+    'static-bank': 30,
+    database: 30,
+};
+
+/** D1 retention for AI-generated exercises */
+const AI_RETENTION_DAYS = 90;
+
+function exerciseKey(exerciseId: string): string {
+    return `exercise:${exerciseId}`;
+}
+
+function retentionDays(exercise: Exercise): number {
+    return RETENTION_DAYS[exercise.metadata?.generatedBy] ?? AI_RETENTION_DAYS;
+}
+
+/**
+ * When an exercise's D1 row expires (its creation time plus its source's retention);
+ * null when the creation time is unknown
+ */
+export function exerciseExpiresAt(exercise: Exercise): number | null {
+    const created = Date.parse(exercise.metadata?.createdAt);
+    return Number.isNaN(created) ? null : created + retentionDays(exercise) * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Persist an exercise to D1 (existing rows are left untouched)
+ */
+async function saveExerciseToD1(db: D1Database, exercise: Exercise): Promise<void> {
+    await db.prepare(`
+        INSERT OR IGNORE INTO exercises (
+            id, subject, category, topic, difficulty, type,
+            problem_json, solution_json, hints_json, validation_json, metadata_json,
+            model_used, expires_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now', ?))
+    `).bind(
+        exercise.id,
+        exercise.subject,
+        exercise.category,
+        exercise.topic,
+        exercise.difficulty,
+        exercise.type,
+        JSON.stringify(exercise.problem),
+        JSON.stringify(exercise.solution),
+        JSON.stringify(exercise.hints || []),
+        JSON.stringify(exercise.validation),
+        JSON.stringify(exercise.metadata),
+        exercise.metadata?.generatedBy || 'unknown',
+        `+${retentionDays(exercise)} days`
+    ).run();
+}
+
+/**
+ * Store exercises in KV and D1.
+ * KV writes are awaited so the exercise is gradable as soon as it is returned;
+ * the D1 copy is handed to waitUntil when available.
+ */
+export async function saveExercises(
+    env: Env,
+    exercises: Exercise[],
+    waitUntil?: (promise: Promise<unknown>) => void
+): Promise<void> {
+    if (exercises.length === 0) return;
+
+    if (env.EXERCISES_KV) {
+        await Promise.all(exercises.map(exercise =>
+            env.EXERCISES_KV.put(exerciseKey(exercise.id), JSON.stringify(exercise), {
+                expirationTtl: EXERCISE_KV_TTL_SECONDS,
+            }).catch(err => console.warn(`[EXERCISE-STORE] KV write failed for ${exercise.id}:`, err))
+        ));
+    }
+
+    if (env.EDU_DB) {
+        const d1Write = Promise.all(exercises.map(exercise =>
+            saveExerciseToD1(env.EDU_DB, exercise)
+                .catch(err => console.warn(`[EXERCISE-STORE] D1 write failed for ${exercise.id}:`, err))
+        ));
+        if (waitUntil) {
+            waitUntil(d1Write);
+        } else {
+            await d1Write;
+        }
+    }
+}
+
+/**
+ * Load an exercise by id from KV, falling back to D1 (and re-caching it in KV)
+ */
+export async function getExercise(env: Env, exerciseId: string): Promise<Exercise | null> {
+    const cached = env.EXERCISES_KV ? await env.EXERCISES_KV.get(exerciseKey(exerciseId)) : null;
+    if (cached) {
+        return JSON.parse(cached) as Exercise;
+    }
+
+    if (!env.EDU_DB) return null;
+
+    try {
+        const row = await env.EDU_DB.prepare(`
+            SELECT * FROM exercises
+            WHERE id = ? AND (expires_at IS NULL OR expires_at > datetime('now'))
+        `).bind(exerciseId).first<Record<string, any>>();
+
+        if (!row?.problem_json) return null;
+
+        const exercise: Exercise = {
+            id: row.id,
+            subject: row.subject,
+            category: row.category,
+            difficulty: row.difficulty,
+            type: row.type,
+            topic: row.topic,
+            problem: JSON.parse(row.problem_json),
+            solution: JSON.parse(row.solution_json),
+            hints: row.hints_json ? JSON.parse(row.hints_json) : [],
+            validation: JSON.parse(row.validation_json),
+            metadata: JSON.parse(row.metadata_json),
+        };
+
+        if (env.EXERCISES_KV) {
+            await env.EXERCISES_KV.put(exerciseKey(exerciseId), JSON.stringify(exercise), {
+                expirationTtl: EXERCISE_KV_TTL_SECONDS,
+            });
+        }
+        return exercise;
+    } catch (err) {
+        console.error('[EXERCISE-STORE] D1 lookup failed:', err);
+        return null;
+    }
+}
+
+/**
+ * Delete expired exercises that have no recorded submissions
+ */
+export async function purgeExpiredExercises(env: Env): Promise<number> {
+    if (!env.EDU_DB) return 0;
+
+    const result = await env.EDU_DB.prepare(`
+        DELETE FROM exercises
+        WHERE expires_at IS NOT NULL
+          AND expires_at < datetime('now')
+          AND id NOT IN (SELECT DISTINCT exercise_id FROM user_progress)
+          AND id NOT IN (SELECT DISTINCT exercise_id FROM review_queue)
+    `).run();
+
+    return result.meta?.changes ?? 0;
+}
@@ -0,0 +1,378 @@
+/**
+ * Expression Evaluator
+ * Safe arithmetic expression parser and evaluator (no eval / Function, which Workers disallow anyway).
+ *
+ * Supports numbers (1.5, .5, 2e-3), variables, + - * / % ^ (and **), unary signs, parentheses,
+ * implicit multiplication (2x, 3(a + b), (a)(b)), the constants pi/π/e and common functions
+ * (sqrt, abs, sin, cos, tan, ln, log, exp, ...). Trig functions use radians; log is base 10.
+ * Variables in the scope shadow constants of the same name.
+ */
+
+export type ExpressionNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'variable'; name: string }
+    | { kind: 'unary'; op: '+' | '-'; operand: ExpressionNode }
+    | { kind: 'binary'; op: '+' | '-' | '*' | '/' | '%' | '^'; left: ExpressionNode; right: ExpressionNode }
+    | { kind: 'call'; name: string; args: ExpressionNode[] };
+
+export type ExpressionScope = Record<string, number>;
+
+interface Token {
+    type: 'number' | 'identifier' | 'operator' | 'lparen' | 'rparen' | 'comma';
+    value: string;
+    position: number;
+}
+
+/** Longest accepted expression (keeps parsing cheap on hostile input) */
+const MAX_EXPRESSION_LENGTH = 500;
+
+/** Deepest nesting accepted before parsing gives up */
+const MAX_DEPTH = 50;
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    'π': Math.PI,
+    e: Math.E,
+};
+
+const FUNCTIONS: Record<string, { arity: number | 'variadic'; fn: (...args: number[]) => number }> = {
+    sqrt: { arity: 1, fn: Math.sqrt },
+    cbrt: { arity: 1, fn: Math.cbrt },
+    abs: { arity: 1, fn: Math.abs },
+    sin: { arity: 1, fn: Math.sin },
+    cos: { arity: 1, fn: Math.cos },
+    tan: { arity: 1, fn: Math.tan },
+    asin: { arity: 1, fn: Math.asin },
+    acos: { arity: 1, fn: Math.acos },
+    atan: { arity: 1, fn: Math.atan },
+    sinh: { arity: 1, fn: Math.sinh },
+    cosh: { arity: 1, fn: Math.cosh },
+    tanh: { arity: 1, fn: Math.tanh },
+    ln: { arity: 1, fn: Math.log },
+    log: { arity: 1, fn: Math.log10 },
+    log10: { arity: 1, fn: Math.log10 },
+    log2: { arity: 1, fn: Math.log2 },
+    exp: { arity: 1, fn: Math.exp },
+    floor: { arity: 1, fn: Math.floor },
+    ceil: { arity: 1, fn: Math.ceil },
+    round: { arity: 1, fn: Math.round },
+    pow: { arity: 2, fn: Math.pow },
+    min: { arity: 'variadic', fn: Math.min },
+    max: { arity: 'variadic', fn: Math.max },
+};
+
+// =============================================================================
+// TOKENIZER
+// =============================================================================
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+            continue;
+        }
+
+        const number = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(text.slice(i));
+        if (number) {
+            tokens.push({ type: 'number', value: number[0], position: i });
+            i += number[0].length;
+            continue;
+        }
+
+        const identifier = /^[\p{L}_][\p{L}\p{N}_]*/u.exec(text.slice(i));
+        if (identifier) {
+            tokens.push({ type: 'identifier', value: identifier[0], position: i });
+            i += identifier[0].length;
+            continue;
+        }
+
+        if (text.startsWith('**', i)) {
+            tokens.push({ type: 'operator', value: '^', position: i });
+            i += 2;
+            continue;
+        }
+
+        if ('+-*/%^×÷−·'.includes(ch)) {
+            const normalized = ch === '×' || ch === '·' ? '*' : ch === '÷' ? '/' : ch === '−' ? '-' : ch;
+            tokens.push({ type: 'operator', value: normalized, position: i });
+        } else if (ch === '(' || ch === '[') {
+            tokens.push({ type: 'lparen', value: '(', position: i });
+        } else if (ch === ')' || ch === ']') {
+            tokens.push({ type: 'rparen', value: ')', position: i });
+        } else if (ch === ',') {
+            tokens.push({ type: 'comma', value: ',', position: i });
+        } else {
+            throw new Error(`unexpected character "${ch}" at position ${i + 1}`);
+        }
+        i++;
+    }
+
+    return tokens;
+}
+
+// =============================================================================
+// PARSER (recursive descent)
+// =============================================================================
+
+/**
+ * Parse an expression into a syntax tree
+ */
+export function parseExpression(text: string): ExpressionNode {
+    if (text.length > MAX_EXPRESSION_LENGTH) {
+        throw new Error(`expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+    }
+
+    const tokens = tokenize(text);
+    let pos = 0;
+    let depth = 0;
+
+    const peek = () => tokens[pos];
+    const describe = (token?: Token) => token ? `"${token.value}" at position ${token.position + 1}` : 'end of expression';
+
+    const expect = (type: Token['type']) => {
+        const token = tokens[pos];
+        if (!token || token.type !== type) {
+            throw new Error(`expected ${type === 'rparen' ? '")"' : type} but found ${describe(token)}`);
+        }
+        pos++;
+        return token;
+    };
+
+    // additive := multiplicative (('+' | '-') multiplicative)*
+    const parseAdditive = (): ExpressionNode => {
+        let node = parseMultiplicative();
+        while (peek()?.type === 'operator' && (peek().value === '+' || peek().value === '-')) {
+            const op = tokens[pos++].value as '+' | '-';
+            node = { kind: 'binary', op, left: node, right: parseMultiplicative() };
+        }
+        return node;
+    };
+
+    // multiplicative := unary (('*' | '/' | '%') unary | implicit-multiplication unary)*
+    const parseMultiplicative = (): ExpressionNode => {
+        let node = parseUnary();
+        while (true) {
+            const token = peek();
+            if (token?.type === 'operator' && ['*', '/', '%'].includes(token.value)) {
+                pos++;
+                node = { kind: 'binary', op: token.value as '*' | '/' | '%', left: node, right: parseUnary() };
+            } else if (token && (token.type === 'number' || token.type === 'identifier' || token.type === 'lparen')) {
+                node = { kind: 'binary', op: '*', left: node, right: parsePower() };
+            } else {
+                return node;
+            }
+        }
+    };
+
+    // unary := ('+' | '-') unary | power
+    const parseUnary = (): ExpressionNode => {
+        const token = peek();
+        if (token?.type === 'operator' && (token.value === '+' || token.value === '-')) {
+            pos++;
+            return { kind: 'unary', op: token.value as '+' | '-', operand: parseUnary() };
+        }
+        return parsePower();
+    };
+
+    // power := primary ('^' unary)?   (right-associative, so -2^2 = -4 and 2^-1 = 0.5)
+    const parsePower = (): ExpressionNode => {
+        const base = parsePrimary();
+        if (peek()?.type === 'operator' && peek().value === '^') {
+            pos++;
+            return { kind: 'binary', op: '^', left: base, right: parseUnary() };
+        }
+        return base;
+    };
+
+    // primary := number | identifier | identifier '(' args ')' | '(' additive ')'
+    const parsePrimary = (): ExpressionNode => {
+        const token = tokens[pos];
+        if (!token) {
+            throw new Error('unexpected end of expression');
+        }
+        if (++depth > MAX_DEPTH) {
+            throw new Error('expression is nested too deeply');
+        }
+
+        try {
+            if (token.type === 'number') {
+                pos++;
+                return { kind: 'number', value: parseFloat(token.value) };
+            }
+
+            if (token.type === 'lparen') {
+                pos++;
+                const inner = parseAdditive();
+                expect('rparen');
+                return inner;
+            }
+
+            if (token.type === 'identifier') {
+                pos++;
+                const name = token.value;
+                if (FUNCTIONS[name.toLowerCase()] && peek()?.type === 'lparen') {
+                    pos++;
+                    const args: ExpressionNode[] = [];
+                    if (peek()?.type !== 'rparen') {
+                        args.push(parseAdditive());
+                        while (peek()?.type === 'comma') {
+                            pos++;
+                            args.push(parseAdditive());
+                        }
+                    }
+                    expect('rparen');
+                    return { kind: 'call', name: name.toLowerCase(), args };
+                }
+                return { kind: 'variable', name };
+            }
+
+            throw new Error(`unexpected ${describe(token)}`);
+        } finally {
+            depth--;
+        }
+    };
+
+    if (tokens.length === 0) {
+        throw new Error('expression is empty');
+    }
+
+    const tree = parseAdditive();
+    if (pos < tokens.length) {
+        throw new Error(`unexpected ${describe(tokens[pos])}`);
+    }
+    return tree;
+}
+
+// =============================================================================
+// EVALUATION
+// =============================================================================
+
+/**
+ * Evaluate a parsed expression (or expression text) with the given variable values
+ */
+export function evaluateExpression(expression: ExpressionNode | string, scope: ExpressionScope = {}): number {
+    const node = typeof expression === 'string' ? parseExpression(expression) : expression;
+
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+
+        case 'variable': {
+            if (Object.prototype.hasOwnProperty.call(scope, node.name)) return scope[node.name];
+            const constant = CONSTANTS[node.name] ?? CONSTANTS[node.name.toLowerCase()];
+            if (constant !== undefined) return constant;
+            throw new Error(`unknown variable "${node.name}"`);
+        }
+
+        case 'unary': {
+            const value = evaluateExpression(node.operand, scope);
+            return node.op === '-' ? -value : value;
+        }
+
+        case 'binary': {
+            const left = evaluateExpression(node.left, scope);
+            const right = evaluateExpression(node.right, scope);
+            switch (node.op) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return left / right;
+                case '%': return left % right;
+                case '^': return Math.pow(left, right);
+            }
+            break;
+        }
+
+        case 'call': {
+            const fn = FUNCTIONS[node.name];
+            if (!fn) {
+                throw new Error(`unknown function "${node.name}"`);
+            }
+            if (fn.arity !== 'variadic' && node.args.length !== fn.arity) {
+                throw new Error(`${node.name}() takes ${fn.arity} argument${fn.arity === 1 ? '' : 's'}`);
+            }
+            if (node.args.length === 0) {
+                throw new Error(`${node.name}() needs at least one argument`);
+            }
+            return fn.fn(...node.args.map(arg => evaluateExpression(arg, scope)));
+        }
+    }
+
+    throw new Error('invalid expression');
+}
+
+/**
+ * Evaluate without throwing; `value` is null when the expression is invalid or not a finite number
+ */
+export function safeEvaluate(
+    expression: string,
+    scope: ExpressionScope = {}
+): { value: number | null; error: string | null } {
+    try {
+        const value = evaluateExpression(expression, scope);
+        if (!Number.isFinite(value)) {
+            return { value: null, error: 'expression does not evaluate to a finite number' };
+        }
+        return { value, error: null };
+    } catch (err: any) {
+        return { value: null, error: err?.message || 'invalid expression' };
+    }
+}
+
+/**
+ * Names of the free variables used in an expression (constants excluded)
+ */
+export function expressionVariables(expression: ExpressionNode | string): string[] {
+    const node = typeof expression === 'string' ? parseExpression(expression) : expression;
+    const names = new Set<string>();
+
+    const walk = (n: ExpressionNode) => {
+        switch (n.kind) {
+            case 'variable':
+                if (CONSTANTS[n.name] === undefined && CONSTANTS[n.name.toLowerCase()] === undefined) names.add(n.name);
+                break;
+            case 'unary':
+                walk(n.operand);
+                break;
+            case 'binary':
+                walk(n.left);
+                walk(n.right);
+                break;
+            case 'call':
+                n.args.forEach(walk);
+                break;
+        }
+    };
+
+    walk(node);
+    return [...names];
+}
+
+/**
+ * Whether a name is a built-in function or constant rather than a variable
+ */
+export function isReservedName(name: string): boolean {
+    const lower = name.toLowerCase();
+    return FUNCTIONS[lower] !== undefined || CONSTANTS[name] !== undefined || CONSTANTS[lower] !== undefined;
+}
+
+/**
+ * Numeric scope from exercise variables; string values like "9.8 m/s^2" use their leading number
+ */
+export function scopeFromVariables(variables: Record<string, string | number> = {}): ExpressionScope {
+    const scope: ExpressionScope = {};
+    for (const [name, raw] of Object.entries(variables)) {
+        const value = typeof raw === 'number'
+            ? raw
+            : parseFloat(/^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(raw)?.[0] ?? '');
+        if (Number.isFinite(value)) {
+            scope[name] = value;
+        }
+    }
+    return scope;
+}
@@ -0,0 +1,323 @@
+/**
+ * Generation Logs
+ * Records every model call made while generating exercises in the D1 `generation_logs` table,
+ * together with the fallback tier (pool, model, database, static bank) that finally served
+ * the request, and provides the admin queries over those rows.
+ *
+ * One generation request writes:
+ * - one row per model call (`attempt_kind` single, batch, repair, verify for answer checks, or grade for rubric grading)
+ * - one row per non-model tier that supplied exercises (`attempt_kind` = the tier)
+ * All rows of a request share `generation_id` and `served_by_tier`.
+ */
+
+import type { Env, GenerateExerciseRequest } from '../types/exercise';
+
+/** Where served exercises came from, best first */
+export type ServedByTier = 'pool' | 'model' | 'database' | 'static-bank' | 'fallback';
+
+const TIER_ORDER: ServedByTier[] = ['pool', 'model', 'database', 'static-bank', 'fallback'];
+
+/** Kind of model call: a fresh single/batch prompt, a repair turn after invalid output, an answer check, or rubric grading */
+export type AttemptKind = 'single' | 'batch' | 'repair' | 'verify' | 'grade';
+
+/** Why a model call did not produce usable exercises */
+export type AttemptFailureReason =
+    | 'rate-limited'
+    | 'model-unavailable'
+    | 'empty-response'
+    | 'invalid-output'
+    | 'error';
+
+export interface GenerationAttempt {
+    model: string;
+    kind: AttemptKind;
+    latencyMs: number;
+    parseSuccess: boolean;
+    /** Valid exercises parsed from the response */
+    exerciseCount: number;
+    /** Estimated prompt + response tokens */
+    tokens?: number;
+    /** Estimated neurons charged to the daily budget */
+    neurons?: number;
+    failureReason?: AttemptFailureReason;
+    errorMessage?: string;
+}
+
+export interface GenerationLog {
+    generationId: string;
+    request: GenerateExerciseRequest;
+    attempts: GenerationAttempt[];
+    /** Exercises served per tier */
+    served: Partial<Record<ServedByTier, number>>;
+}
+
+export interface GenerationLogFilters {
+    model?: string;
+    subject?: string;
+    tier?: string;
+    success?: boolean;
+    /** Only rows from the last N hours */
+    hours?: number;
+    limit?: number;
+}
+
+export interface GenerationLogSummary {
+    hours: number;
+    models: Array<{
+        model: string;
+        attempts: number;
+        successes: number;
+        failureRate: number;
+        avgLatencyMs: number;
+        neuronsUsed: number;
+        failureReasons: Record<string, number>;
+    }>;
+    subjects: Array<{ subject: string; attempts: number; failures: number; failureRate: number }>;
+    /** Requests by the lowest tier that had to serve them */
+    servedBy: Record<string, number>;
+    /** Exercises served by each non-model tier */
+    tierExercises: Record<string, number>;
+}
+
+const MAX_QUERY_LIMIT = 500;
+const DEFAULT_SUMMARY_HOURS = 24;
+
+/**
+ * Start the log for one generation request
+ */
+export function createGenerationLog(request: GenerateExerciseRequest): GenerationLog {
+    return {
+        generationId: crypto.randomUUID(),
+        request,
+        attempts: [],
+        served: {},
+    };
+}
+
+/**
+ * Record a model call
+ */
+export function recordAttempt(log: GenerationLog, attempt: GenerationAttempt): void {
+    log.attempts.push(attempt);
+}
+
+/**
+ * Record exercises served by a tier
+ */
+export function recordServed(log: GenerationLog, tier: ServedByTier, count = 1): void {
+    if (count <= 0) return;
+    log.served[tier] = (log.served[tier] || 0) + count;
+}
+
+/**
+ * Lowest tier that had to serve part of the request (null if nothing was served)
+ */
+export function servedByTier(log: GenerationLog): ServedByTier | null {
+    for (let i = TIER_ORDER.length - 1; i >= 0; i--) {
+        if (log.served[TIER_ORDER[i]]) return TIER_ORDER[i];
+    }
+    return null;
+}
+
+/**
+ * Map a Workers AI error message to a failure reason
+ */
+export function classifyModelError(message: string): AttemptFailureReason {
+    const lower = message.toLowerCase();
+    if (lower.includes('rate') || lower.includes('limit') || lower.includes('quota')) {
+        return 'rate-limited';
+    }
+    if (lower.includes('not found') || lower.includes('invalid model')) {
+        return 'model-unavailable';
+    }
+    return 'error';
+}
+
+/**
+ * Write a generation log to D1.
+ * Handed to waitUntil when available so logging never delays the response.
+ */
+export async function saveGenerationLog(
+    env: Env,
+    log: GenerationLog,
+    waitUntil?: (promise: Promise<unknown>) => void
+): Promise<void> {
+    if (!env.EDU_DB) return;
+
+    const requestJson = JSON.stringify(log.request);
+    const servedBy = servedByTier(log);
+    const insert = env.EDU_DB.prepare(`
+        INSERT INTO generation_logs (
+            generation_id, request_json, subject, model_used, attempt_kind,
+            success, parse_success, exercise_count, failure_reason, error_message,
+            latency_ms, tokens_used, neurons_used, served_by_tier
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const statements = log.attempts.map(attempt => insert.bind(
+        log.generationId,
+        requestJson,
+        log.request.subject,
+        attempt.model,
+        attempt.kind,
+        attempt.parseSuccess ? 1 : 0,
+        attempt.parseSuccess ? 1 : 0,
+        attempt.exerciseCount,
+        attempt.failureReason || null,
+        attempt.errorMessage?.slice(0, 1000) || null,
+        attempt.latencyMs,
+        attempt.tokens ?? null,
+        attempt.neurons ?? null,
+        servedBy
+    ));
+
+    for (const tier of TIER_ORDER) {
+        if (tier === 'model' || !log.served[tier]) continue;
+        statements.push(insert.bind(
+            log.generationId,
+            requestJson,
+            log.request.subject,
+            tier,
+            tier,
+            1,
+            1,
+            log.served[tier],
+            null,
+            null,
+            null,
+            null,
+            null,
+            servedBy
+        ));
+    }
+
+    if (statements.length === 0) return;
+
+    const write = env.EDU_DB.batch(statements)
+        .catch(err => console.warn(`[GENERATION-LOGS] Write failed for ${log.generationId}:`, err));
+    if (waitUntil) {
+        waitUntil(write);
+    } else {
+        await write;
+    }
+}
+
+/**
+ * List log rows, newest first
+ */
+export async function queryGenerationLogs(
+    db: D1Database,
+    filters: GenerationLogFilters = {}
+): Promise<Record<string, unknown>[]> {
+    const conditions: string[] = [];
+    const bindings: (string | number)[] = [];
+
+    if (filters.model) {
+        conditions.push('model_used = ?');
+        bindings.push(filters.model);
+    }
+    if (filters.subject) {
+        conditions.push('subject = ?');
+        bindings.push(filters.subject);
+    }
+    if (filters.tier) {
+        conditions.push('served_by_tier = ?');
+        bindings.push(filters.tier);
+    }
+    if (filters.success !== undefined) {
+        conditions.push('success = ?');
+        bindings.push(filters.success ? 1 : 0);
+    }
+    if (filters.hours) {
+        conditions.push(`created_at >= datetime('now', ?)`);
+        bindings.push(`-${filters.hours} hours`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = Math.min(filters.limit || 100, MAX_QUERY_LIMIT);
+
+    const result = await db.prepare(`
+        SELECT id, generation_id, subject, model_used, attempt_kind, success, parse_success,
+               exercise_count, failure_reason, error_message, latency_ms, tokens_used, neurons_used, served_by_tier,
+               request_json, created_at
+        FROM generation_logs
+        ${where}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ?
+    `).bind(...bindings, limit).all<Record<string, unknown>>();
+
+    return result.results || [];
+}
+
+/**
+ * Failure rates per model and subject, and how often each fallback tier served requests
+ */
+export async function summarizeGenerationLogs(
+    db: D1Database,
+    hours = DEFAULT_SUMMARY_HOURS
+): Promise<GenerationLogSummary> {
+    const since = `-${hours} hours`;
+    const modelAttempts = `attempt_kind IN ('single', 'batch', 'repair') AND created_at >= datetime('now', ?)`;
+
+    const [models, reasons, subjects, servedBy, tiers] = await db.batch<Record<string, any>>([
+        db.prepare(`
+            SELECT model_used, COUNT(*) AS attempts, SUM(parse_success) AS successes, AVG(latency_ms) AS avg_latency,
+                   SUM(neurons_used) AS neurons
+            FROM generation_logs WHERE ${modelAttempts}
+            GROUP BY model_used ORDER BY attempts DESC
+        `).bind(since),
+        db.prepare(`
+            SELECT model_used, failure_reason, COUNT(*) AS count
+            FROM generation_logs WHERE ${modelAttempts} AND failure_reason IS NOT NULL
+            GROUP BY model_used, failure_reason
+        `).bind(since),
+        db.prepare(`
+            SELECT subject, COUNT(*) AS attempts, SUM(1 - parse_success) AS failures
+            FROM generation_logs WHERE ${modelAttempts}
+            GROUP BY subject ORDER BY failures DESC
+        `).bind(since),
+        db.prepare(`
+            SELECT served_by_tier, COUNT(DISTINCT generation_id) AS requests
+            FROM generation_logs WHERE created_at >= datetime('now', ?)
+            GROUP BY served_by_tier
+        `).bind(since),
+        db.prepare(`
+            SELECT attempt_kind AS tier, SUM(exercise_count) AS exercises
+            FROM generation_logs
+            WHERE attempt_kind IN ('pool', 'database', 'static-bank', 'fallback') AND created_at >= datetime('now', ?)
+            GROUP BY attempt_kind
+        `).bind(since),
+    ]);
+
+    const rate = (part: number, total: number) => total > 0 ? Math.round((part / total) * 1000) / 1000 : 0;
+
+    return {
+        hours,
+        models: (models.results || []).map(row => ({
+            model: row.model_used,
+            attempts: row.attempts,
+            successes: row.successes || 0,
+            failureRate: rate(row.attempts - (row.successes || 0), row.attempts),
+            avgLatencyMs: Math.round(row.avg_latency || 0),
+            neuronsUsed: row.neurons || 0,
+            failureReasons: Object.fromEntries(
+                (reasons.results || [])
+                    .filter(r => r.model_used === row.model_used)
+                    .map(r => [r.failure_reason, r.count])
+            ),
+        })),
+        subjects: (subjects.results || []).map(row => ({
+            subject: row.subject,
+            attempts: row.attempts,
+            failures: row.failures || 0,
+            failureRate: rate(row.failures || 0, row.attempts),
+        })),
+        servedBy: Object.fromEntries(
+            (servedBy.results || []).map(row => [row.served_by_tier ?? 'none', row.requests])
+        ),
+        tierExercises: Object.fromEntries(
+            (tiers.results || []).map(row => [row.tier, row.exercises || 0])
+        ),
+    };
+}
@@ -7,11 +7,14 @@
  * - @cf/meta/llama-3.2-3b-instruct (fast, ~4.6k neurons/M input)
  * - @cf/meta/llama-3.1-8b-instruct-fast (quality, ~4.1k neurons/M input)
  * - @cf/qwen/qwq-32b (reasoning, ~60k neurons/M input)
+ * Spend is tracked against the daily neuron budget (see neuron-budget.ts), which
+ * trims the fallback chain as the budget runs down.
  * =============================================================================
  */
 
 import type {
     Env,
+    AiTextGenerationInput,
     Exercise,
     ExerciseType,
     GenerateExerciseRequest,
@@ -24,12 +27,116 @@ import type {
     ExerciseSolution,
     ValidationRules,
     ContentRating,
+    AnswerVerification,
+    OptionFeedback,
+    TestCaseResult,
+    CriterionScore,
+    WordDiffToken,
+    TranslationContent,
+    ConjugationFormResult,
+    ItemResult,
+    Misconception,
 } from '../types/exercise';
-import { determineContentRating } from '../types/exercise';
+import { determineContentRating, getDifficultyPoints } from '../types/exercise';
+import { normalizeSolutionAnswer, validateGeneratedExercise } from './content-validator';
+import { safeEvaluate, scopeFromVariables } from './expression-evaluator';
+import { gradeMultipleChoice } from './choice-grader';
+import { gradeOrdering } from './ordering-grader';
+import { gradeNumericAnswer } from './numeric-answer';
+import { checkMathAnswer, isSymbolicKey, usesMathEquivalence } from './math-equivalence';
+import { gradeCode } from './coding-grader';
+import {
+    buildRubricPrompt,
+    checkAnswerLength,
+    isRubricGraded,
+    parseRubricJudgement,
+    pendingReviewResult,
+    rubricCriteria,
+    scoreRubric,
+} from './rubric-grader';
+import type { RubricGradeResult } from './rubric-grader';
+import {
+    buildTranslationJudgePrompt,
+    closestReference,
+    gradeTranslation,
+    judgeWithLingua,
+    needsJudgement,
+    parseTranslationJudgement,
+    translationJudgeMode,
+} from './translation-grader';
+import type { TranslationJudgement } from './translation-grader';
+import { gradeConjugation } from './conjugation-grader';
+import { customValidatorFor, runCustomValidator } from './validator-registry';
+import { detectMisconception } from './misconceptions';
+import { closeAnswerCredit, closeAnswerFeedback, matchTextAnswer, textMatchOptions } from './text-matcher';
+import { describeExerciseTypes } from './prompt-schemas';
+import { exerciseFingerprint, isNearDuplicate } from './text-similarity';
+import {
+    POOL_REFILL_BATCH,
+    POOL_REFILL_THRESHOLD,
+    addToPool,
+    claimRefillLock,
+    isPoolable,
+    markSeen,
+    takeFromPool,
+} from './exercise-pool';
+import { saveExercises } from './exercise-store';
+import { attemptPolicy } from './attempt-state';
+import {
+    classifyModelError,
+    createGenerationLog,
+    recordAttempt,
+    recordServed,
+    saveGenerationLog,
+} from './generation-logs';
+import type { AttemptKind, GenerationLog, ServedByTier } from './generation-logs';
+import {
+    LOW_BUDGET_FRACTION,
+    affordableModels,
+    estimateNeurons,
+    estimateTokens,
+    getNeuronBudget,
+    recordNeuronUsage,
+    remainingFraction,
+    spendNeurons,
+} from './neuron-budget';
+import type { NeuronBudget } from './neuron-budget';
+import {
+    buildVerificationPrompt,
+    isVerifiable,
+    parseVerifierAnswer,
+    verificationOutcome,
+} from './answer-verifier';
 
 // Re-export subject configs
 export { SUBJECT_CONFIGS } from '../types/exercise';
 
+/** Repair turns allowed per model before moving down the fallback chain */
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/** Token budgets for single and batch generation calls */
+const SINGLE_MAX_TOKENS = 2000;
+const BATCH_TOKENS_PER_EXERCISE = 700;
+const MAX_BATCH_TOKENS = 8000;
+
+/** Extra batch calls made to replace invalid or near-duplicate exercises */
+const MAX_TOPUP_ROUNDS = 2;
+
+/** Relative tolerance of formula-computed calculation answers without sigFigs */
+const CALCULATION_RELATIVE_TOLERANCE = 0.01;
+
+/** Token budget for an answer verification call (reasoning models think before answering) */
+const VERIFY_MAX_TOKENS = 2500;
+
+/** Token budget for a rubric grading call */
+const GRADE_MAX_TOKENS = 2500;
+
+/** Token budget for a translation judging call */
+const TRANSLATION_JUDGE_MAX_TOKENS = 600;
+
+/** Exercises rejected for a failed answer check per request before the rest are served flagged */
+const MAX_VERIFY_REJECTIONS = 2;
+
 /**
  * Generate a unique exercise ID
  */
@@ -39,6 +146,16 @@ function generateExerciseId(subject: Subject, category: string): string {
     return `${subject.substring(0, 3)}-${category.substring(0, 3)}-${timestamp}-${random}`;
 }
 
+/**
+ * Exercise types the model may choose from for this request
+ */
+function getRequestedTypes(
+    request: GenerateExerciseRequest,
+    subjectConfig: typeof SUBJECT_CONFIGS[Subject]
+): ExerciseType[] {
+    return request.types?.length ? request.types : subjectConfig.supportedTypes.slice(0, 3);
+}
+
 /**
  * Build the AI prompt for exercise generation
  */
@@ -46,7 +163,8 @@ function buildGenerationPrompt(
     request: GenerateExerciseRequest,
     subjectConfig: typeof SUBJECT_CONFIGS[Subject]
 ): { systemPrompt: string; userPrompt: string } {
-    const exerciseTypes = request.types?.join(', ') || subjectConfig.supportedTypes.slice(0, 3).join(', ');
+    const requestedTypes = getRequestedTypes(request, subjectConfig);
+    const exerciseTypes = requestedTypes.join(', ');
 
     const systemPrompt = `${subjectConfig.systemPrompt}
 
@@ -55,41 +173,17 @@ OUTPUT FORMAT: Return a valid JSON object with this exact structure:
   "instruction": "Clear instruction for the student",
   "content": { /* exercise-type specific content */ },
   "solution": {
-    "correctAnswer": "the correct answer",
+    "correctAnswer": /* exercise-type specific answer format */,
     "explanation": "detailed explanation",
-    "steps": [{ "stepNumber": 1, "description": "step description" }]
+    "steps": [{ "stepNumber": 1, "description": "step description" }],
+    "commonMistakes": ["mistake students often make, quoting the wrong answer it leads to, e.g. \"'144' for 3 × 4² — multiplying before squaring\""]
   },
   "hints": ["hint 1", "hint 2"],
   "estimatedTime": 120,
   "tags": ["tag1", "tag2"]
 }
 
-For multiple-choice exercises, content should be:
-{
-  "type": "multiple-choice",
-  "question": "the question",
-  "options": [
-    { "id": "a", "text": "option text" },
-    { "id": "b", "text": "option text" }
-  ],
-  "multiSelect": false
-}
-
-For fill-blank exercises, content should be:
-{
-  "type": "fill-blank",
-  "template": "Text with [BLANK] markers",
-  "blankCount": 1,
-  "wordBank": ["option1", "option2"]
-}
-
-For calculation exercises, content should be:
-{
-  "type": "calculation",
-  "problem": "the problem statement",
-  "variables": { "x": 5 },
-  "units": "meters"
-}
+${describeExerciseTypes(requestedTypes)}
 
 Return ONLY the JSON object, no additional text.`;
 
@@ -114,6 +208,7 @@ ${request.category ? `- Category: ${request.category}` : ''}
 ${request.language ? `- Language: ${request.language}` : ''}
 ${request.targetLanguage ? `- Target language: ${request.targetLanguage}` : ''}
 ${contextInfo}
+${request.options?.multiSelect && requestedTypes.includes('multiple-choice') ? `- Multiple-choice questions must be multi-select: set "multiSelect": true with 2 or more correct options` : ''}
 ${request.options?.customInstructions ? `\nADDITIONAL INSTRUCTIONS: ${request.options.customInstructions}` : ''}
 
 Generate a high-quality exercise that tests understanding of the topic.`;
@@ -121,6 +216,38 @@ Generate a high-quality exercise that tests understanding of the topic.`;
     return { systemPrompt, userPrompt };
 }
 
+/**
+ * Result of parsing an AI response: either an exercise or the reasons it was rejected
+ */
+interface ParseResult {
+    exercise: Exercise | null;
+    errors: string[];
+}
+
+/**
+ * Strip markdown fences and parse the JSON payload of an AI response
+ */
+function extractJSON(response: string): { parsed: any; error: string | null } {
+    // Clean up response - remove markdown code blocks if present
+    let cleanResponse = response.trim();
+    if (cleanResponse.startsWith('```json')) {
+        cleanResponse = cleanResponse.slice(7);
+    }
+    if (cleanResponse.startsWith('```')) {
+        cleanResponse = cleanResponse.slice(3);
+    }
+    if (cleanResponse.endsWith('```')) {
+        cleanResponse = cleanResponse.slice(0, -3);
+    }
+    cleanResponse = cleanResponse.trim();
+
+    try {
+        return { parsed: JSON.parse(cleanResponse), error: null };
+    } catch (err: any) {
+        return { parsed: null, error: `response is not valid JSON: ${err?.message || 'parse error'}` };
+    }
+}
+
 /**
  * Parse AI response into Exercise structure
  */
@@ -129,88 +256,192 @@ function parseAIResponse(
     request: GenerateExerciseRequest,
     subjectConfig: typeof SUBJECT_CONFIGS[Subject],
     model: string
-): Exercise | null {
-    try {
-        // Clean up response - remove markdown code blocks if present
-        let cleanResponse = response.trim();
-        if (cleanResponse.startsWith('```json')) {
-            cleanResponse = cleanResponse.slice(7);
-        }
-        if (cleanResponse.startsWith('```')) {
-            cleanResponse = cleanResponse.slice(3);
-        }
-        if (cleanResponse.endsWith('```')) {
-            cleanResponse = cleanResponse.slice(0, -3);
-        }
-        cleanResponse = cleanResponse.trim();
-
-        const parsed = JSON.parse(cleanResponse);
-
-        // Determine exercise type from content
-        const exerciseType: ExerciseType = parsed.content?.type || 'short-answer';
-
-        const exercise: Exercise = {
-            id: generateExerciseId(request.subject, request.category || 'gen'),
-            subject: request.subject,
-            category: (request.category || subjectConfig.categories[0]) as SubjectCategory,
-            difficulty: request.difficulty,
-            type: exerciseType,
-            topic: request.topic,
-            problem: {
-                instruction: parsed.instruction || 'Complete the exercise below.',
-                content: parsed.content as ProblemContent,
-                context: parsed.context,
-                maxPoints: getDifficultyPoints(request.difficulty),
-            },
-            solution: {
-                correctAnswer: parsed.solution?.correctAnswer || '',
-                explanation: parsed.solution?.explanation || '',
-                steps: parsed.solution?.steps,
-                commonMistakes: parsed.solution?.commonMistakes,
-            },
-            hints: parsed.hints || [],
-            validation: {
-                ...subjectConfig.validationDefaults,
-                passingScore: subjectConfig.validationDefaults.passingScore || 70,
-                allowPartialCredit: subjectConfig.validationDefaults.allowPartialCredit ?? true,
-                caseSensitive: subjectConfig.validationDefaults.caseSensitive ?? false,
-                hintPenalty: subjectConfig.validationDefaults.hintPenalty || 5,
-            } as ValidationRules,
-            metadata: {
-                createdAt: new Date().toISOString(),
-                generatedBy: model,
-                contentRating: determineContentRating(
-                    request.subject,
-                    (request.category || subjectConfig.categories[0]) as SubjectCategory,
-                    request.topic
-                ),
-                sourceLesson: request.lessonContext?.title,
-                tags: parsed.tags || [request.topic, request.subject],
-                estimatedTime: parsed.estimatedTime || getDefaultTime(request.difficulty),
-                language: request.language || 'en',
-                version: 1,
-            },
-        };
-
-        return exercise;
-    } catch {
-        // Failed to parse AI response
-        return null;
+): ParseResult {
+    const { parsed, error } = extractJSON(response);
+    if (error) {
+        return { exercise: null, errors: [error] };
     }
+    return buildExerciseFromParsed(parsed, request, subjectConfig, model);
 }
 
 /**
- * Get points based on difficulty
+ * Validate one parsed exercise object and convert it into an Exercise
  */
-function getDifficultyPoints(difficulty: DifficultyLevel): number {
-    const points: Record<DifficultyLevel, number> = {
-        beginner: 10,
-        elementary: 15,
-        intermediate: 20,
-        advanced: 30,
-        expert: 50,
+function buildExerciseFromParsed(
+    parsed: any,
+    request: GenerateExerciseRequest,
+    subjectConfig: typeof SUBJECT_CONFIGS[Subject],
+    model: string
+): ParseResult {
+    if (parsed?.solution && parsed.content) {
+        parsed.solution.correctAnswer = normalizeSolutionAnswer(parsed.content, parsed.solution.correctAnswer);
+    }
+
+    const { valid, errors } = validateGeneratedExercise(parsed, getRequestedTypes(request, subjectConfig));
+    if (!valid) {
+        return { exercise: null, errors };
+    }
+
+    const exerciseType: ExerciseType = parsed.content.type;
+
+    const exercise: Exercise = {
+        id: generateExerciseId(request.subject, request.category || 'gen'),
+        subject: request.subject,
+        category: (request.category || subjectConfig.categories[0]) as SubjectCategory,
+        difficulty: request.difficulty,
+        type: exerciseType,
+        topic: request.topic,
+        problem: {
+            instruction: parsed.instruction,
+            content: parsed.content as ProblemContent,
+            context: parsed.context,
+            maxPoints: getDifficultyPoints(request.difficulty),
+        },
+        solution: {
+            correctAnswer: parsed.solution.correctAnswer,
+            explanation: parsed.solution.explanation,
+            steps: parsed.solution.steps,
+            commonMistakes: parsed.solution.commonMistakes,
+            ...(exerciseType === 'calculation' ? { formula: parsed.solution.formula } : {}),
+        },
+        hints: parsed.hints || [],
+        validation: {
+            ...subjectConfig.validationDefaults,
+            passingScore: subjectConfig.validationDefaults.passingScore || 70,
+            allowPartialCredit: subjectConfig.validationDefaults.allowPartialCredit ?? true,
+            caseSensitive: subjectConfig.validationDefaults.caseSensitive ?? false,
+            hintPenalty: subjectConfig.validationDefaults.hintPenalty || 5,
+        } as ValidationRules,
+        metadata: {
+            createdAt: new Date().toISOString(),
+            generatedBy: model,
+            contentRating: determineContentRating(
+                request.subject,
+                (request.category || subjectConfig.categories[0]) as SubjectCategory,
+                request.topic
+            ),
+            sourceLesson: request.lessonContext?.title,
+            tags: [
+                ...(parsed.tags || [request.topic, request.subject]),
+                ...(typeof parsed.subSkill === 'string' ? [parsed.subSkill] : []),
+            ],
+            estimatedTime: parsed.estimatedTime || getDefaultTime(request.difficulty),
+            language: request.language || 'en',
+            version: 1,
+        },
     };
-    return points[difficulty];
+
+    if (exercise.problem.content.type === 'calculation') {
+        applyFormulaAnswer(exercise.problem.content, exercise.solution);
+    }
+
+    return { exercise, errors: [] };
+}
+
+/**
+ * Replace the model's arithmetic with the value computed from solution.formula and the variables.
+ * The key becomes { value, tolerance }: half a unit in the last significant figure when sigFigs
+ * is set, otherwise CALCULATION_RELATIVE_TOLERANCE of the value.
+ */
+function applyFormulaAnswer(content: CalculationContent, solution: ExerciseSolution): void {
+    if (!solution.formula) return;
+
+    const { value: computed } = safeEvaluate(solution.formula, scopeFromVariables(content.variables));
+    if (computed === null) return;
+
+    let value: number;
+    let tolerance: number;
+    if (content.sigFigs) {
+        value = Number(computed.toPrecision(content.sigFigs));
+        const magnitude = computed === 0 ? 0 : Math.floor(Math.log10(Math.abs(computed)));
+        tolerance = Number((Math.pow(10, magnitude - content.sigFigs + 1) / 2).toPrecision(6));
+    } else {
+        value = Number(computed.toPrecision(12));
+        tolerance = Number((Math.abs(value) * CALCULATION_RELATIVE_TOLERANCE || CALCULATION_RELATIVE_TOLERANCE).toPrecision(6));
+    }
+
+    const stated = solution.correctAnswer;
+    const statedValue = typeof stated === 'number' ? stated : (stated as { value?: number })?.value;
+    if (typeof statedValue === 'number' && Math.abs(statedValue - value) > tolerance) {
+        console.warn(`[GENERATOR] Model answer ${statedValue} disagrees with formula "${solution.formula}" = ${value}; using the formula`);
+    }
+
+    solution.correctAnswer = { value, tolerance };
+}
+
+/**
+ * Build the follow-up user turn asking the model to fix a rejected response
+ */
+function buildRepairPrompt(errors: string[]): string {
+    return `Your previous response could not be used because of these problems:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Fix every problem listed above and return the corrected JSON with the same structure.
+Return ONLY the JSON object, no additional text.`;
+}
+
+/**
+ * Build the prompt for a batch of distinct exercises in a single model call
+ */
+function buildBatchGenerationPrompt(
+    request: GenerateExerciseRequest,
+    subjectConfig: typeof SUBJECT_CONFIGS[Subject],
+    batchSize: number,
+    avoidQuestions: string[]
+): { systemPrompt: string; userPrompt: string } {
+    const { systemPrompt: singlePrompt, userPrompt: singleUserPrompt } = buildGenerationPrompt(request, subjectConfig);
+
+    const systemPrompt = `${singlePrompt}
+
+BATCH MODE: Instead of a single exercise, return a JSON object of the form
+{ "exercises": [ /* ${batchSize} exercise objects */ ] }
+where every exercise object has the structure above plus a "subSkill" field naming the specific sub-skill it tests.`;
+
+    const avoidList = avoidQuestions.length > 0
+        ? `\nDo NOT repeat or paraphrase these existing questions:\n${avoidQuestions.map(q => `- ${q.slice(0, 200)}`).join('\n')}\n`
+        : '';
+
+    const userPrompt = `${singleUserPrompt.replace(
+        `Generate a ${request.difficulty} level ${request.subject} exercise.`,
+        `Generate ${batchSize} different ${request.difficulty} level ${request.subject} exercises.`
+    )}
+
+Each exercise must test a DIFFERENT sub-skill of the topic and use different numbers, words and wording from the others.${avoidList}`;
+
+    return { systemPrompt, userPrompt };
+}
+
+/**
+ * Parse a batch response; valid exercises are kept and invalid ones reported
+ */
+function parseAIBatchResponse(
+    response: string,
+    request: GenerateExerciseRequest,
+    subjectConfig: typeof SUBJECT_CONFIGS[Subject],
+    model: string
+): { exercises: Exercise[]; errors: string[] } {
+    const { parsed, error } = extractJSON(response);
+    if (error) {
+        return { exercises: [], errors: [error] };
+    }
+
+    const items = Array.isArray(parsed) ? parsed : parsed?.exercises;
+    if (!Array.isArray(items) || items.length === 0) {
+        return { exercises: [], errors: ['response must be an object with a non-empty "exercises" array'] };
+    }
+
+    const exercises: Exercise[] = [];
+    const errors: string[] = [];
+    items.forEach((item, i) => {
+        const result = buildExerciseFromParsed(item, request, subjectConfig, model);
+        if (result.exercise) {
+            exercises.push(result.exercise);
+        } else {
+            errors.push(...result.errors.map(e => `exercises[${i}].${e}`));
+        }
+    });
+
+    return { exercises, errors };
 }
 
 /**
@@ -252,10 +483,33 @@ function selectModel(env: Env, request: GenerateExerciseRequest): string {
 }
 
 /**
- * Generate a cache key for the request
+ * Short digest of free text for a pool key (32-bit FNV-1a, base 36)
+ */
+function keyDigest(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+}
+
+/**
+ * Generate the pool key for the request. Everything that changes the exercises the prompt
+ * asks for is part of it, so a pool never serves exercises of another shape.
  */
 function getCacheKey(request: GenerateExerciseRequest): string {
-    const key = `ex:${request.subject}:${request.category || 'any'}:${request.topic}:${request.difficulty}:${request.types?.join('-') || 'any'}`;
+    const options = request.options || {};
+    const variant = [
+        request.language && `lang-${request.language}`,
+        request.targetLanguage && `to-${request.targetLanguage}`,
+        options.multiSelect && 'multi',
+        options.customInstructions && `ci-${keyDigest(options.customInstructions)}`,
+        request.lessonContext && `lesson-${keyDigest(JSON.stringify(request.lessonContext))}`,
+        // Verified requests get their own pool so they are never served unchecked exercises
+        options.verifyAnswers && 'verified',
+    ].filter(Boolean).map(part => `:${part}`).join('');
+    const key = `ex:${request.subject}:${request.category || 'any'}:${request.topic}:${request.difficulty}:${request.types?.join('-') || 'any'}${variant}`;
     return key.toLowerCase().replace(/[^a-z0-9:-]/g, '-');
 }
 
@@ -323,6 +577,12 @@ function generateFallbackExercise(
 
 // Import for fallback type
 type MultipleChoiceContent = import('../types/exercise').MultipleChoiceContent;
+type CalculationContent = import('../types/exercise').CalculationContent;
+type OrderingContent = import('../types/exercise').OrderingContent;
+type CodingContent = import('../types/exercise').CodingContent;
+type TrueFalseContent = import('../types/exercise').TrueFalseContent;
+type MatchingContent = import('../types/exercise').MatchingContent;
+type DiagramContent = import('../types/exercise').DiagramContent;
 
 // Import static exercise bank (legacy fallback)
 import { getStaticFallbackExercise, templateToExercise } from './exercise-bank';
@@ -404,12 +664,331 @@ function generateSmartFallback(
     return generateFallbackExercise(request, subjectConfig);
 }
 
+/**
+ * Outcome of running a prompt down the model fallback chain
+ */
+interface ModelChainOutcome<T> {
+    result: T | null;
+    model: string;
+    error: string | null;
+}
+
+/**
+ * Per-request bookkeeping shared by every model call
+ */
+interface GenerationRun {
+    log: GenerationLog;
+    budget: NeuronBudget;
+}
+
+/**
+ * Run a prompt down the model fallback chain.
+ * Each model gets the initial attempt plus repair turns that feed validation errors back
+ * before the next model in the chain is tried.
+ */
+async function runModelChain<T>(
+    env: Env,
+    modelFallbackChain: string[],
+    systemPrompt: string,
+    userPrompt: string,
+    maxTokens: number,
+    kind: Exclude<AttemptKind, 'repair'>,
+    run: GenerationRun,
+    parse: (responseText: string, model: string) => { result: T | null; errors: string[] },
+    onModelFailed?: (model: string, nextModel: string | null, reason: string) => void | Promise<void>
+): Promise<ModelChainOutcome<T>> {
+    let lastError: string | null = null;
+
+    if (!env.AI) {
+        return { result: null, model: modelFallbackChain[0], error: lastError };
+    }
+
+    // Try each model in the fallback chain
+    for (const [index, currentModel] of modelFallbackChain.entries()) {
+        let failureReason = 'no valid response after repair attempts';
+        let attemptKind: AttemptKind = kind;
+        let startedAt = Date.now();
+
+        try {
+            console.log(`[GENERATOR] Attempting with model: ${currentModel}`);
+
+            const messages: AiTextGenerationInput['messages'] = [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt },
+            ];
+
+            for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+                attemptKind = attempt === 0 ? kind : 'repair';
+                startedAt = Date.now();
+
+                const promptChars = messages.reduce((sum, message) => sum + message.content.length, 0);
+                if (affordableModels(run.budget, [currentModel], promptChars, maxTokens).length === 0) {
+                    console.warn(`[GENERATOR] Neuron budget too low for another ${currentModel} call`);
+                    failureReason = 'daily neuron budget exhausted';
+                    break;
+                }
+
+                const aiResponse = await env.AI.run(currentModel, {
+                    messages,
+                    max_tokens: maxTokens,
+                    temperature: 0.7,
+                });
+
+                const responseText = aiResponse.response || '';
+                const inputTokens = estimateTokens(promptChars);
+                const outputTokens = estimateTokens(responseText);
+                const neurons = estimateNeurons(currentModel, inputTokens, outputTokens);
+                spendNeurons(run.budget, currentModel, neurons);
+
+                if (!responseText) {
+                    console.warn(`[GENERATOR] Empty response from ${currentModel}`);
+                    failureReason = 'empty response';
+                    recordAttempt(run.log, {
+                        model: currentModel,
+                        kind: attemptKind,
+                        latencyMs: Date.now() - startedAt,
+                        parseSuccess: false,
+                        exerciseCount: 0,
+                        tokens: inputTokens + outputTokens,
+                        neurons,
+                        failureReason: 'empty-response',
+                    });
+                    break;
+                }
+
+                const { result, errors } = parse(responseText, currentModel);
+
+                recordAttempt(run.log, {
+                    model: currentModel,
+                    kind: attemptKind,
+                    latencyMs: Date.now() - startedAt,
+                    parseSuccess: !!result,
+                    exerciseCount: Array.isArray(result) ? result.length : (result ? 1 : 0),
+                    tokens: inputTokens + outputTokens,
+                    neurons,
+                    ...(errors.length > 0 ? { errorMessage: errors.join('; ') } : {}),
+                    ...(!result ? { failureReason: 'invalid-output' as const } : {}),
+                });
+
+                if (result) {
+                    return { result, model: currentModel, error: lastError };
+                }
+
+                console.warn(`[GENERATOR] Invalid response from ${currentModel} (attempt ${attempt + 1}):`, errors);
+                messages.push(
+                    { role: 'assistant', content: responseText },
+                    { role: 'user', content: buildRepairPrompt(errors) },
+                );
+            }
+        } catch (modelError: any) {
+            const errorMsg = modelError?.message || String(modelError);
+            console.error(`[GENERATOR] Model ${currentModel} failed:`, errorMsg);
+            lastError = errorMsg;
+            failureReason = errorMsg;
+
+            const reason = classifyModelError(errorMsg);
+            recordAttempt(run.log, {
+                model: currentModel,
+                kind: attemptKind,
+                latencyMs: Date.now() - startedAt,
+                parseSuccess: false,
+                exerciseCount: 0,
+                failureReason: reason,
+                errorMessage: errorMsg,
+            });
+
+            if (reason === 'rate-limited') {
+                console.warn('[GENERATOR] Rate limit detected, trying lighter model');
+            } else if (reason === 'model-unavailable') {
+                console.warn(`[GENERATOR] Model ${currentModel} not available`);
+            }
+        }
+
+        await onModelFailed?.(currentModel, modelFallbackChain[index + 1] ?? null, failureReason);
+    }
+
+    return { result: null, model: modelFallbackChain[0], error: lastError };
+}
+
+/**
+ * Solve an exercise with a second model (without the answer key) and grade that answer against the key
+ */
+async function verifyExercise(env: Env, exercise: Exercise, run: GenerationRun): Promise<AnswerVerification> {
+    if (!isVerifiable(exercise)) {
+        return { status: 'skipped', verifiedAt: new Date().toISOString() };
+    }
+
+    const { systemPrompt, userPrompt } = buildVerificationPrompt(exercise);
+    const verifierChain = [
+        env.REASONING_MODEL || '@cf/qwen/qwq-32b',
+        env.QUALITY_MODEL || '@cf/meta/llama-3.1-8b-instruct-fast',
+    ].filter((m, i, arr) => arr.indexOf(m) === i);
+    const chain = affordableModels(run.budget, verifierChain, systemPrompt.length + userPrompt.length, VERIFY_MAX_TOKENS);
+
+    const outcome = chain.length === 0 ? null : await runModelChain(
+        env,
+        chain,
+        systemPrompt,
+        userPrompt,
+        VERIFY_MAX_TOKENS,
+        'verify',
+        run,
+        text => parseVerifierAnswer(text, exercise)
+    );
+
+    if (!outcome?.result) {
+        console.warn(`[GENERATOR] Could not verify ${exercise.id}${chain.length === 0 ? ' (neuron budget)' : ''}`);
+        return { status: 'unverified', verifiedAt: new Date().toISOString() };
+    }
+
+    const { score } = validateAnswer(exercise, outcome.result.answer);
+    return verificationOutcome(outcome.model, outcome.result.answer, score);
+}
+
+/**
+ * Bookkeeping for model calls made while grading, logged under the exercise's subject and type
+ */
+async function createGradingRun(env: Env, exercise: Exercise, context: GenerationContext): Promise<GenerationRun> {
+    return {
+        log: createGenerationLog({
+            subject: exercise.subject,
+            category: exercise.category,
+            topic: exercise.topic,
+            difficulty: exercise.difficulty,
+            types: [exercise.type],
+            count: 1,
+        }),
+        budget: await getNeuronBudget(env, context.isChild),
+    };
+}
+
+/**
+ * Score a long answer or proof against its rubric with a model.
+ * Model calls are logged and charged like generation calls; the answer goes to a teacher
+ * when no affordable model gives a usable, confident judgement.
+ */
+async function gradeWithRubric(
+    env: Env,
+    exercise: Exercise,
+    answer: string,
+    context: GenerationContext
+): Promise<RubricGradeResult> {
+    const criteria = rubricCriteria(exercise);
+    const { systemPrompt, userPrompt } = buildRubricPrompt(exercise, answer, criteria);
+    const graderChain = [
+        env.REASONING_MODEL || '@cf/qwen/qwq-32b',
+        env.QUALITY_MODEL || '@cf/meta/llama-3.1-8b-instruct-fast',
+    ].filter((m, i, arr) => arr.indexOf(m) === i);
+
+    const run = await createGradingRun(env, exercise, context);
+    const chain = affordableModels(run.budget, graderChain, systemPrompt.length + userPrompt.length, GRADE_MAX_TOKENS);
+
+    const outcome = chain.length === 0 ? null : await runModelChain(
+        env,
+        chain,
+        systemPrompt,
+        userPrompt,
+        GRADE_MAX_TOKENS,
+        'grade',
+        run,
+        text => parseRubricJudgement(text, criteria)
+    );
+
+    await saveGenerationLog(env, run.log, context.waitUntil);
+    await recordNeuronUsage(env, run.budget, context.waitUntil);
+
+    if (!outcome?.result) {
+        console.warn(`[GENERATOR] Could not grade ${exercise.id}${chain.length === 0 ? ' (neuron budget)' : ''}; left for teacher review`);
+        return pendingReviewResult();
+    }
+
+    const graded = scoreRubric(outcome.result);
+    if (graded.pendingReview) {
+        console.warn(`[GENERATOR] Low grading confidence (${outcome.result.confidence}) for ${exercise.id}; left for teacher review`);
+    }
+    return graded;
+}
+
+/**
+ * Judge a translation's meaning and register with a model, or with Lingua back-translation
+ * when the exercise asks for it or no model answers
+ */
+async function judgeTranslation(
+    env: Env,
+    exercise: Exercise,
+    reference: string,
+    answer: string,
+    context: GenerationContext
+): Promise<TranslationJudgement | null> {
+    const mode = translationJudgeMode(exercise);
+    const content = exercise.problem.content as TranslationContent;
+    if (mode === 'none') return null;
+    if (mode === 'lingua') return judgeWithLingua(env, content, answer);
+
+    const { systemPrompt, userPrompt } = buildTranslationJudgePrompt(content, reference, answer);
+    const judgeChain = [
+        env.QUALITY_MODEL || '@cf/meta/llama-3.1-8b-instruct-fast',
+        env.DEFAULT_MODEL || '@cf/meta/llama-3.2-3b-instruct',
+    ].filter((m, i, arr) => arr.indexOf(m) === i);
+
+    const run = await createGradingRun(env, exercise, context);
+    const chain = affordableModels(run.budget, judgeChain, systemPrompt.length + userPrompt.length, TRANSLATION_JUDGE_MAX_TOKENS);
+
+    const outcome = chain.length === 0 ? null : await runModelChain(
+        env,
+        chain,
+        systemPrompt,
+        userPrompt,
+        TRANSLATION_JUDGE_MAX_TOKENS,
+        'grade',
+        run,
+        text => parseTranslationJudgement(text, content)
+    );
+
+    await saveGenerationLog(env, run.log, context.waitUntil);
+    await recordNeuronUsage(env, run.budget, context.waitUntil);
+
+    if (outcome?.result) return outcome.result;
+    console.warn(`[GENERATOR] No model judged translation ${exercise.id}; trying Lingua`);
+    return judgeWithLingua(env, content, answer);
+}
+
+/**
+ * Per-call context supplied by the worker (not part of the client request)
+ */
+export interface GenerationContext {
+    /** Learner requesting the exercises, used to skip exercises they have already seen */
+    userId?: string;
+
+    /** Child accounts may also spend the neuron budget reserved for them */
+    isChild?: boolean;
+
+    /** Schedules background work (pool refills) that outlives the response */
+    waitUntil?: (promise: Promise<unknown>) => void;
+
+    /** Bypass the exercise pool (used by pool refills themselves) */
+    skipPool?: boolean;
+
+    /** Progress callback for streaming clients; exercises are stored before they are announced */
+    onEvent?: (event: GenerationEvent) => void | Promise<void>;
+}
+
+/**
+ * Progress events emitted while generating
+ */
+export type GenerationEvent =
+    | { type: 'exercise'; exercise: Exercise; source: 'pool' | 'model' | 'bank' }
+    | { type: 'model-fallback'; from: string; to: string | null; reason: string }
+    | { type: 'bank-fallback'; source: string; reason: string };
+
 /**
  * Main exercise generation function
+ * Serves unseen exercises from the pool first and generates only the shortfall
  */
 export async function generateExercise(
     env: Env,
-    request: GenerateExerciseRequest
+    request: GenerateExerciseRequest,
+    context: GenerationContext = {}
 ): Promise<GenerateExerciseResponse> {
     const { SUBJECT_CONFIGS } = await import('../types/exercise');
     const subjectConfig = SUBJECT_CONFIGS[request.subject];
@@ -419,34 +998,108 @@ export async function generateExercise(
     }
 
     const count = Math.min(request.count || 1, parseInt(env.MAX_EXERCISES_PER_REQUEST) || 10);
-    const exercises: Exercise[] = [];
-    let model = selectModel(env, request);
-    let aiError: string | null = null;
+    const poolKey = getCacheKey(request);
+    const log = createGenerationLog(request);
+    let pooled: Exercise[] = [];
+    let unseenRemaining = 0;
 
-    // Check cache for similar exercises (if KV is configured)
-    const cacheKey = getCacheKey(request);
-    try {
-        const cached = env.EXERCISES_KV ? await env.EXERCISES_KV.get(cacheKey) : null;
-
-        if (cached && count === 1) {
-            const cachedExercise = JSON.parse(cached) as Exercise;
-            return {
-                exercises: [cachedExercise],
-                meta: {
-                    model,
-                    generatedAt: new Date().toISOString(),
-                    cached: true,
-                },
-            };
+    // Serve from the pool first (if KV is configured)
+    if (!context.skipPool) {
+        try {
+            const served = await takeFromPool(env, poolKey, count, context.userId);
+            pooled = served.exercises;
+            unseenRemaining = served.unseenRemaining;
+        } catch (poolError) {
+            console.warn('[GENERATOR] Pool lookup failed:', poolError);
         }
-    } catch (cacheError) {
-        console.warn('[GENERATOR] Cache lookup failed:', cacheError);
     }
 
-    // Check if AI binding is available
+    recordServed(log, 'pool', pooled.length);
+    for (const exercise of pooled) {
+        await context.onEvent?.({ type: 'exercise', exercise, source: 'pool' });
+    }
+
+    const needed = count - pooled.length;
+    const generated = needed > 0 ? await generateNewExercises(env, request, subjectConfig, needed, context, log) : null;
+    const exercises = [...pooled, ...(generated?.exercises || [])];
+
+    await saveGenerationLog(env, log, context.waitUntil);
+
+    if (exercises.length === 0) {
+        throw new Error(`Failed to generate exercises. ${generated?.aiError ? `AI Error: ${generated.aiError}` : 'Unknown error'}`);
+    }
+
+    if (!context.skipPool) {
+        try {
+            if (generated) {
+                await addToPool(env, poolKey, generated.exercises);
+            }
+            await markSeen(env, poolKey, context.userId, exercises.map(e => e.id));
+        } catch (poolError) {
+            console.warn('[GENERATOR] Pool update failed:', poolError);
+        }
+
+        if (unseenRemaining < POOL_REFILL_THRESHOLD) {
+            schedulePoolRefill(env, request, poolKey, context);
+        }
+    }
+
+    return {
+        exercises,
+        meta: {
+            model: generated?.model || selectModel(env, request),
+            generatedAt: new Date().toISOString(),
+            ...(generated ? { tokensUsed: generated.tokensUsed, neuronsUsed: generated.neuronsUsed } : {}),
+            cached: !generated,
+            ...(generated?.aiError && exercises.some(e => !isPoolable(e))
+                ? { warning: 'Some exercises used fallback due to AI unavailability' }
+                : {}),
+        },
+    };
+}
+
+/**
+ * Top up a pool in the background once learners start running out of unseen exercises
+ */
+function schedulePoolRefill(
+    env: Env,
+    request: GenerateExerciseRequest,
+    poolKey: string,
+    context: GenerationContext
+): void {
+    if (!context.waitUntil || !env.AI) return;
+
+    context.waitUntil((async () => {
+        // Refills are a luxury; leave a low budget for learners' own requests
+        if (remainingFraction(await getNeuronBudget(env)) < LOW_BUDGET_FRACTION) return;
+        if (!(await claimRefillLock(env, poolKey))) return;
+
+        const refill = await generateExercise(env, { ...request, count: POOL_REFILL_BATCH }, { skipPool: true });
+        const added = await addToPool(env, poolKey, refill.exercises);
+        console.log(`[GENERATOR] Refilled pool ${poolKey} with ${added} exercises`);
+    })().catch(err => console.warn('[GENERATOR] Pool refill failed:', err)));
+}
+
+/**
+ * Generate `count` new exercises with the model fallback chain, then the exercise banks.
+ * Every exercise is persisted (so it can be graded by id) before it is announced.
+ */
+async function generateNewExercises(
+    env: Env,
+    request: GenerateExerciseRequest,
+    subjectConfig: typeof SUBJECT_CONFIGS[Subject],
+    count: number,
+    context: GenerationContext,
+    log: GenerationLog
+): Promise<{ exercises: Exercise[]; model: string; aiError: string | null; tokensUsed: number; neuronsUsed: number }> {
+    const exercises: Exercise[] = [];
+    const run: GenerationRun = { log, budget: await getNeuronBudget(env, context.isChild) };
+    let model = selectModel(env, request);
+    let aiError: string | null = env.AI ? null : 'AI binding not configured - check wrangler.toml';
+    let modelsExhausted = !env.AI;
+
     if (!env.AI) {
         console.error('[GENERATOR] AI binding not configured');
-        aiError = 'AI binding not configured - check wrangler.toml';
     }
 
     // Define model fallback chain
@@ -456,116 +1109,234 @@ export async function generateExercise(
         '@cf/meta/llama-3.2-1b-instruct', // Even lighter model
     ].filter((m, i, arr) => arr.indexOf(m) === i); // Remove duplicates
 
-    // Generate exercises with fallback chain
-    for (let i = 0; i < count; i++) {
-        const { systemPrompt, userPrompt } = buildGenerationPrompt(request, subjectConfig);
-        let generated = false;
-
-        // Try each model in the fallback chain
-        for (const currentModel of modelFallbackChain) {
-            if (generated) break;
-            if (!env.AI) break;
+    const accept = async (exercise: Exercise, source: 'model' | 'bank') => {
+        exercises.push(exercise);
+        recordServed(log, source === 'model' ? 'model' : exercise.metadata.generatedBy as ServedByTier);
+        await saveExercises(env, [exercise], context.waitUntil);
+        await context.onEvent?.({ type: 'exercise', exercise, source });
+    };
 
-            try {
-                console.log(`[GENERATOR] Attempting with model: ${currentModel}`);
+    // With verifyAnswers, exercises whose key fails the check are dropped (and the slot regenerated)
+    // until MAX_VERIFY_REJECTIONS is reached; after that they are served flagged as a mismatch
+    let verifyRejections = 0;
+    const acceptGenerated = async (exercise: Exercise) => {
+        if (request.options?.verifyAnswers) {
+            const verification = await verifyExercise(env, exercise, run);
+            if (verification.status === 'mismatch' && verifyRejections < MAX_VERIFY_REJECTIONS) {
+                verifyRejections++;
+                console.warn(`[GENERATOR] Answer key of ${exercise.id} failed verification, regenerating`);
+                return;
+            }
+            exercise.metadata.verification = verifyRejections > 0
+                ? { ...verification, regenerated: verifyRejections }
+                : verification;
+        }
+        await accept(exercise, 'model');
+    };
 
-                const aiResponse = await env.AI.run(currentModel, {
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt },
-                    ],
-                    max_tokens: 2000,
-                    temperature: 0.7,
-                });
+    const onModelFailed = (from: string, to: string | null, reason: string) =>
+        context.onEvent?.({ type: 'model-fallback', from, to, reason });
+
+    // Models the remaining neuron budget allows for a call of this size
+    const affordableChain = (systemPrompt: string, userPrompt: string, maxTokens: number) => {
+        const chain = affordableModels(run.budget, modelFallbackChain, systemPrompt.length + userPrompt.length, maxTokens);
+        if (chain.length === 0) {
+            console.warn('[GENERATOR] Daily neuron budget exhausted, using exercise bank');
+            aiError = 'Daily AI neuron budget exhausted';
+            modelsExhausted = true;
+        } else if (chain[0] !== modelFallbackChain[0]) {
+            console.warn(`[GENERATOR] Neuron budget low, routing to ${chain[0]} instead of ${modelFallbackChain[0]}`);
+        }
+        return chain;
+    };
 
-                const responseText = aiResponse.response || '';
+    // Single call for one exercise; streaming clients also get their first exercise this way
+    // so it can be shown before the rest of the batch is ready
+    if (!modelsExhausted && (count === 1 || context.onEvent)) {
+        const { systemPrompt, userPrompt } = buildGenerationPrompt(request, subjectConfig);
+        const chain = affordableChain(systemPrompt, userPrompt, SINGLE_MAX_TOKENS);
+        const outcome = chain.length === 0 ? null : await runModelChain(
+            env,
+            chain,
+            systemPrompt,
+            userPrompt,
+            SINGLE_MAX_TOKENS,
+            'single',
+            run,
+            (text, currentModel) => {
+                const { exercise, errors } = parseAIResponse(text, request, subjectConfig, currentModel);
+                return { result: exercise ? [exercise] : null, errors };
+            },
+            onModelFailed
+        );
 
-                if (!responseText) {
-                    console.warn(`[GENERATOR] Empty response from ${currentModel}`);
-                    continue;
-                }
+        if (outcome?.error) aiError = outcome.error;
+        if (outcome?.result) {
+            model = outcome.model;
+            await acceptGenerated(outcome.result[0]);
+        } else {
+            modelsExhausted = true;
+        }
+    }
 
-                const exercise = parseAIResponse(responseText, request, subjectConfig, currentModel);
-
-                if (exercise) {
-                    exercises.push(exercise);
-                    model = currentModel; // Update to the model that worked
-                    generated = true;
-
-                    // Cache successful generation (if KV is configured)
-                    if (count === 1 && env.EXERCISES_KV) {
-                        try {
-                            await env.EXERCISES_KV.put(
-                                cacheKey,
-                                JSON.stringify(exercise),
-                                { expirationTtl: parseInt(env.CACHE_TTL_SECONDS) || 86400 }
-                            );
-                        } catch (cacheWriteError) {
-                            console.warn('[GENERATOR] Cache write failed:', cacheWriteError);
-                        }
-                    }
-                } else {
-                    console.warn(`[GENERATOR] Failed to parse response from ${currentModel}`);
-                }
-            } catch (modelError: any) {
-                const errorMsg = modelError?.message || String(modelError);
-                console.error(`[GENERATOR] Model ${currentModel} failed:`, errorMsg);
-                aiError = errorMsg;
-
-                // Check for rate limit
-                if (errorMsg.includes('rate') || errorMsg.includes('limit') || errorMsg.includes('quota')) {
-                    console.warn('[GENERATOR] Rate limit detected, trying lighter model');
-                    continue;
-                }
+    // Batch mode: one call per round, topping up whatever was invalid or duplicated
+    for (let round = 0; round <= MAX_TOPUP_ROUNDS && exercises.length < count && !modelsExhausted; round++) {
+        const remaining = count - exercises.length;
+        const { systemPrompt, userPrompt } = buildBatchGenerationPrompt(
+            request,
+            subjectConfig,
+            remaining,
+            exercises.map(exerciseFingerprint)
+        );
 
-                // Check for model not found
-                if (errorMsg.includes('not found') || errorMsg.includes('invalid model')) {
-                    console.warn(`[GENERATOR] Model ${currentModel} not available`);
-                    continue;
+        const maxTokens = Math.min(BATCH_TOKENS_PER_EXERCISE * remaining + 500, MAX_BATCH_TOKENS);
+        const chain = affordableChain(systemPrompt, userPrompt, maxTokens);
+        if (chain.length === 0) break;
+
+        const outcome = await runModelChain(
+            env,
+            chain,
+            systemPrompt,
+            userPrompt,
+            maxTokens,
+            'batch',
+            run,
+            (text, currentModel) => {
+                const { exercises: batch, errors } = parseAIBatchResponse(text, request, subjectConfig, currentModel);
+                if (errors.length > 0) {
+                    console.warn(`[GENERATOR] Batch from ${currentModel} had invalid items:`, errors);
                 }
-            }
-        }
-
-        // If no AI models worked, use smart fallback (try D1 first, then static bank)
-        if (!generated) {
-            console.warn(`[GENERATOR] All models failed for exercise ${i + 1}, using smart fallback`);
+                return { result: batch.length > 0 ? batch : null, errors };
+            },
+            onModelFailed
+        );
 
-            // Try D1 database first
-            const d1Exercise = env.EDU_DB ? await getExerciseFromD1(
-                env.EDU_DB,
-                request.subject,
-                request.category,
-                request.topic,
-                request.difficulty
-            ) : null;
+        if (outcome.error) aiError = outcome.error;
+        if (!outcome.result) break;
+        model = outcome.model;
 
-            if (d1Exercise) {
-                exercises.push(d1Exercise);
-            } else {
-                // Fall back to static exercise bank
-                const fallbackExercise = generateSmartFallback(request, subjectConfig);
-                exercises.push(fallbackExercise);
+        for (const exercise of outcome.result) {
+            if (exercises.length >= count) break;
+            if (isNearDuplicate(exercise, exercises)) {
+                console.warn(`[GENERATOR] Rejected near-duplicate exercise ${exercise.id}`);
+                continue;
             }
+            await acceptGenerated(exercise);
         }
     }
 
-    if (exercises.length === 0) {
-        throw new Error(`Failed to generate exercises. ${aiError ? `AI Error: ${aiError}` : 'Unknown error'}`);
+    // If no AI models worked, use smart fallback (try D1 first, then static bank)
+    for (let i = exercises.length; i < count; i++) {
+        console.warn(`[GENERATOR] No AI exercise for slot ${i + 1}, using smart fallback`);
+
+        // Try D1 database first
+        const d1Exercise = env.EDU_DB ? await getExerciseFromD1(
+            env.EDU_DB,
+            request.subject,
+            request.category,
+            request.topic,
+            request.difficulty
+        ) : null;
+
+        // Fall back to static exercise bank
+        const fallbackExercise = d1Exercise || generateSmartFallback(request, subjectConfig);
+        await context.onEvent?.({
+            type: 'bank-fallback',
+            source: fallbackExercise.metadata.generatedBy,
+            reason: aiError || 'AI models did not produce a valid exercise',
+        });
+        await accept(fallbackExercise, 'bank');
     }
 
+    await recordNeuronUsage(env, run.budget, context.waitUntil);
+
     return {
         exercises,
-        meta: {
-            model,
-            generatedAt: new Date().toISOString(),
-            cached: false,
-            ...(aiError && exercises.some(e => (e as any).metadata?.generatedBy === 'fallback' || (e as any).generatedBy === 'database')
-                ? { warning: 'Some exercises used fallback due to AI unavailability' }
-                : {}),
-        },
+        model,
+        aiError,
+        tokensUsed: log.attempts.reduce((sum, attempt) => sum + (attempt.tokens || 0), 0),
+        neuronsUsed: Object.values(run.budget.spent).reduce((sum, neurons) => sum + neurons, 0),
     };
 }
 
+/**
+ * Graded answer, before it is stored or returned to the learner
+ */
+export interface AnswerValidation {
+    passed: boolean;
+    score: number;
+    feedback: string;
+    pointsEarned: number;
+    optionFeedback?: OptionFeedback[];
+    misplacedItems?: string[];
+    testResults?: TestCaseResult[];
+    criteria?: CriterionScore[];
+    pendingReview?: boolean;
+    wordDiff?: WordDiffToken[];
+    forms?: ConjugationFormResult[];
+    details?: Record<string, unknown>;
+    items?: ItemResult[];
+    misconception?: Misconception;
+}
+
+/**
+ * Grade a submission, including types that need asynchronous work (running code, AI rubric grading)
+ */
+export async function gradeSubmission(
+    env: Env,
+    exercise: Exercise,
+    userAnswer: unknown,
+    hintsUsed: number = 0,
+    timeTaken: number = 0,
+    previousAttempts: number = 0,
+    context: GenerationContext = {}
+): Promise<AnswerValidation> {
+    // A selected custom validator replaces the type's grader; see validateAnswer
+    if (customValidatorFor(exercise)) {
+        return validateAnswer(exercise, userAnswer, hintsUsed, timeTaken, previousAttempts);
+    }
+
+    if (isRubricGraded(exercise)) {
+        const answer = typeof userAnswer === 'string' ? userAnswer : '';
+        const lengthProblem = checkAnswerLength(exercise, answer);
+        if (lengthProblem) {
+            return { passed: false, score: 0, feedback: lengthProblem, pointsEarned: 0 };
+        }
+
+        const { score, feedback, criteria, pendingReview } = await gradeWithRubric(env, exercise, answer, context);
+        if (pendingReview) {
+            return { passed: false, score: 0, feedback, pointsEarned: 0, pendingReview };
+        }
+        return { ...finalizeScore(exercise, score, feedback, hintsUsed, timeTaken, previousAttempts), criteria };
+    }
+
+    if (exercise.type === 'translation') {
+        const answer = typeof userAnswer === 'string' ? userAnswer.trim() : '';
+        const { reference, similarity, accentsOnly } = closestReference(exercise, answer);
+        const judgement = answer && reference && !accentsOnly && needsJudgement(similarity)
+            ? await judgeTranslation(env, exercise, reference, answer, context)
+            : null;
+        const { score, feedback, wordDiff } = gradeTranslation(exercise, answer, judgement);
+        return { ...finalizeScore(exercise, score, feedback, hintsUsed, timeTaken, previousAttempts), wordDiff };
+    }
+
+    if (exercise.type === 'coding') {
+        const { score, feedback, testResults } = await gradeCode(
+            exercise.problem.content as CodingContent,
+            userAnswer,
+            exercise.validation
+        );
+        // Hidden test cases are listed without their input or expected output
+        const items: ItemResult[] = testResults.map(test => ({
+            item: String(test.index + 1),
+            status: test.passed ? 'correct' : 'wrong',
+            ...(test.hidden ? {} : { label: test.input, given: test.actualOutput, expected: test.expectedOutput }),
+        }));
+        return { ...finalizeScore(exercise, score, feedback, hintsUsed, timeTaken, previousAttempts), testResults, items };
+    }
+    return validateAnswer(exercise, userAnswer, hintsUsed, timeTaken, previousAttempts);
+}
+
 /**
  * Validate a user's answer against the exercise solution
  */
@@ -573,77 +1344,116 @@ export function validateAnswer(
     exercise: Exercise,
     userAnswer: unknown,
     hintsUsed: number = 0,
-    timeTaken: number = 0
-): {
-    passed: boolean;
-    score: number;
-    feedback: string;
-    pointsEarned: number;
-} {
+    timeTaken: number = 0,
+    previousAttempts: number = 0
+): AnswerValidation {
     const { solution, validation, problem } = exercise;
     let score = 0;
     let feedback = '';
+    let optionFeedback: OptionFeedback[] | undefined;
+    let misplacedItems: string[] | undefined;
+    let wordDiff: WordDiffToken[] | undefined;
+    let forms: ConjugationFormResult[] | undefined;
+    let items: ItemResult[] | undefined;
+
+    // Named validators from the registry (ValidationRules.customValidator) take precedence
+    const custom = runCustomValidator(exercise, userAnswer);
+    if (custom) {
+        return {
+            ...finalizeScore(exercise, custom.score, custom.feedback, hintsUsed, timeTaken, previousAttempts),
+            ...(custom.details ? { details: custom.details } : {}),
+        };
+    }
 
     // Type-specific validation
     switch (exercise.type) {
         case 'multiple-choice': {
-            const correctId = solution.correctAnswer as string;
-            if (userAnswer === correctId) {
-                score = 100;
-                feedback = 'Correct!';
-            } else {
-                score = 0;
-                feedback = `Incorrect. The correct answer was: ${correctId}`;
-            }
+            ({ score, feedback, optionFeedback } = gradeMultipleChoice(
+                problem.content as MultipleChoiceContent,
+                solution.correctAnswer,
+                userAnswer,
+                validation
+            ));
+            break;
+        }
+
+        case 'ordering': {
+            ({ score, feedback, misplacedItems } = gradeOrdering(
+                problem.content as OrderingContent,
+                solution.correctAnswer,
+                userAnswer,
+                validation
+            ));
+            // given/expected are 1-based positions
+            const given = (Array.isArray(userAnswer) ? userAnswer : String(userAnswer ?? '').split(',')).map(id => String(id).trim());
+            const textOf = new Map(((problem.content as OrderingContent).items || []).map(item => [item.id, item.text]));
+            const order = Array.isArray(solution.correctAnswer)
+                ? solution.correctAnswer.map(String)
+                : String(solution.correctAnswer ?? '').split(',').map(id => id.trim());
+            items = order.map((id, i) => ({
+                item: id,
+                label: textOf.get(id),
+                status: misplacedItems!.includes(id) ? (given.includes(id) ? 'wrong' : 'missing') : 'correct',
+                given: given.includes(id) ? String(given.indexOf(id) + 1) : undefined,
+                expected: String(i + 1),
+            }));
             break;
         }
 
         case 'fill-blank': {
-            const correctAnswers = solution.correctAnswer as string[];
-            const userAnswers = userAnswer as string[];
+            // A single blank may be stored and answered as a plain string
+            const correctAnswers = (typeof solution.correctAnswer === 'string'
+                ? [solution.correctAnswer]
+                : solution.correctAnswer) as string[];
+            const userAnswers = (typeof userAnswer === 'string' ? [userAnswer] : userAnswer) as string[];
 
             if (Array.isArray(correctAnswers) && Array.isArray(userAnswers)) {
+                const matchOptions = textMatchOptions(exercise);
+                const closeCredit = closeAnswerCredit(exercise);
+                const math = usesMathEquivalence(exercise);
                 let correct = 0;
+                let close = 0;
+                items = [];
                 for (let i = 0; i < correctAnswers.length; i++) {
-                    const expected = validation.caseSensitive
-                        ? correctAnswers[i]
-                        : correctAnswers[i].toLowerCase();
-                    const given = validation.caseSensitive
-                        ? userAnswers[i] || ''
-                        : (userAnswers[i] || '').toLowerCase();
-
-                    if (expected === given || validation.alternatives?.includes(given)) {
+                    const given = String(userAnswers[i] ?? '').trim();
+                    const match = matchTextAnswer(
+                        given,
+                        [correctAnswers[i], ...(validation.alternatives || [])],
+                        matchOptions
+                    );
+                    let status: ItemResult['status'] = given ? 'wrong' : 'missing';
+                    if (match.status === 'exact' || match.status === 'equivalent'
+                        || (math && checkMathAnswer(correctAnswers[i], userAnswers[i], validation)?.equivalent)) {
                         correct++;
+                        status = 'correct';
+                    } else if (match.status === 'close') {
+                        close++;
+                        status = 'close';
                     }
+                    items.push({ item: String(i + 1), status, given, expected: String(correctAnswers[i]) });
                 }
-                score = (correct / correctAnswers.length) * 100;
+                score = ((correct + close * closeCredit / 100) / correctAnswers.length) * 100;
                 feedback = `You got ${correct} out of ${correctAnswers.length} correct.`;
+                if (close > 0) {
+                    feedback += ` ${close} ${close === 1 ? 'was' : 'were'} close — check your spelling.`;
+                }
             }
             break;
         }
 
         case 'calculation': {
-            const correctValue = solution.correctAnswer as number | { value: number; tolerance: number };
-            const userValue = parseFloat(userAnswer as string);
-
-            if (typeof correctValue === 'number') {
-                const tolerance = validation.tolerance || 0.01;
-                if (Math.abs(correctValue - userValue) <= tolerance * Math.abs(correctValue)) {
-                    score = 100;
-                    feedback = 'Correct!';
-                } else {
-                    score = 0;
-                    feedback = `Incorrect. The correct answer was: ${correctValue}`;
-                }
-            } else if (typeof correctValue === 'object' && 'value' in correctValue) {
-                if (Math.abs(correctValue.value - userValue) <= correctValue.tolerance) {
-                    score = 100;
-                    feedback = 'Correct!';
-                } else {
-                    score = 0;
-                    feedback = `Incorrect. The correct answer was: ${correctValue.value}`;
-                }
+            // Solution sets and expressions ("x = 2 or x = 3") are not single numbers
+            if (isSymbolicKey(solution.correctAnswer)) {
+                ({ score, feedback } = checkMathAnswer(solution.correctAnswer, userAnswer, validation)
+                    ?? { score: 0, feedback: 'Incorrect.' });
+                break;
             }
+            ({ score, feedback } = gradeNumericAnswer(
+                problem.content as CalculationContent,
+                solution.correctAnswer,
+                userAnswer,
+                validation
+            ));
             break;
         }
 
@@ -652,11 +1462,21 @@ export function validateAnswer(
             const userAnswers = userAnswer as boolean[];
 
             if (Array.isArray(correctAnswers) && Array.isArray(userAnswers)) {
+                const statements = (problem.content as TrueFalseContent).statements || [];
                 let correct = 0;
+                items = [];
                 for (let i = 0; i < correctAnswers.length; i++) {
+                    const answered = typeof userAnswers[i] === 'boolean';
                     if (correctAnswers[i] === userAnswers[i]) {
                         correct++;
                     }
+                    items.push({
+                        item: String(i + 1),
+                        label: statements[i]?.text,
+                        status: correctAnswers[i] === userAnswers[i] ? 'correct' : answered ? 'wrong' : 'missing',
+                        given: answered ? String(userAnswers[i]) : undefined,
+                        expected: String(correctAnswers[i]),
+                    });
                 }
                 score = (correct / correctAnswers.length) * 100;
                 feedback = `You got ${correct} out of ${correctAnswers.length} correct.`;
@@ -666,37 +1486,118 @@ export function validateAnswer(
 
         case 'matching': {
             const correctMatches = solution.correctAnswer as Record<string, string>;
-            const userMatches = userAnswer as Record<string, string>;
+            const userMatches = (userAnswer || {}) as Record<string, string>;
 
             const totalPairs = Object.keys(correctMatches).length;
+            const { leftColumn = [], rightColumn = [] } = problem.content as MatchingContent;
+            const rightText = (id: string) => rightColumn.find(r => r.id === id)?.text ?? id;
             let correct = 0;
+            items = [];
 
             for (const [key, value] of Object.entries(correctMatches)) {
                 if (userMatches[key] === value) {
                     correct++;
                 }
+                items.push({
+                    item: key,
+                    label: leftColumn.find(l => l.id === key)?.text,
+                    status: userMatches[key] === value ? 'correct' : userMatches[key] ? 'wrong' : 'missing',
+                    given: userMatches[key] ? rightText(userMatches[key]) : undefined,
+                    expected: rightText(value),
+                });
             }
             score = (correct / totalPairs) * 100;
             feedback = `You matched ${correct} out of ${totalPairs} pairs correctly.`;
             break;
         }
 
+        case 'conjugation': {
+            ({ score, feedback, forms } = gradeConjugation(exercise, userAnswer));
+            const key = solution.correctAnswer as Record<string, string>;
+            items = forms.map(form => ({
+                item: form.subject,
+                status: form.status === 'accents' ? 'close' : form.status,
+                given: form.given,
+                expected: key[form.subject],
+            }));
+            break;
+        }
+
+        case 'diagram': {
+            // Keyed text answers: marker id -> label
+            const correctEntries = solution.correctAnswer as Record<string, string>;
+            const userEntries = (userAnswer || {}) as Record<string, string>;
+
+            const total = Object.keys(correctEntries).length;
+            const markers = (problem.content as DiagramContent).markers || [];
+            let correct = 0;
+            items = [];
+
+            for (const [key, value] of Object.entries(correctEntries)) {
+                const expected = validation.caseSensitive ? value : value.toLowerCase();
+                const given = String(userEntries[key] ?? '').trim();
+                const right = expected === (validation.caseSensitive ? given : given.toLowerCase());
+                if (right) {
+                    correct++;
+                }
+                items.push({
+                    item: key,
+                    label: markers.find(m => m.id === key)?.position,
+                    status: right ? 'correct' : given ? 'wrong' : 'missing',
+                    given: given || undefined,
+                    expected: value,
+                });
+            }
+            score = total > 0 ? (correct / total) * 100 : 0;
+            feedback = `You got ${correct} out of ${total} correct.`;
+            break;
+        }
+
+        case 'translation': {
+            // Reference similarity only; gradeSubmission adds the meaning judge
+            ({ score, feedback, wordDiff } = gradeTranslation(exercise, userAnswer));
+            break;
+        }
+
+        case 'long-answer':
+        case 'proof': {
+            // Scored against the rubric by a model; see gradeSubmission
+            score = 0;
+            feedback = 'Long answers and proofs are graded against their rubric.';
+            break;
+        }
+
+        case 'coding': {
+            // Code has to run in the sandbox; see gradeSubmission
+            score = 0;
+            feedback = 'Coding answers are graded by running them against the test cases.';
+            break;
+        }
+
         default: {
-            // For text-based answers, do a simple comparison
-            const correctText = String(solution.correctAnswer);
-            const userText = String(userAnswer);
+            // Math answers are compared by value first, e.g. "(x-2)(x-3)" for "x² - 5x + 6"
+            const math = usesMathEquivalence(exercise)
+                ? checkMathAnswer(solution.correctAnswer, userAnswer, validation)
+                : null;
+            if (math && math.score > 0) {
+                ({ score, feedback } = math);
+                break;
+            }
 
-            const expected = validation.caseSensitive ? correctText : correctText.toLowerCase();
-            const given = validation.caseSensitive ? userText : userText.toLowerCase();
+            // For text-based answers, compare tolerantly (see text-matcher.ts)
+            const correctText = String(solution.correctAnswer);
+            const match = matchTextAnswer(
+                userAnswer,
+                [correctText, ...(validation.alternatives || [])],
+                textMatchOptions(exercise)
+            );
 
-            if (expected === given) {
+            if (match.status === 'exact' || match.status === 'equivalent') {
                 score = 100;
-                feedback = 'Correct!';
-            } else if (validation.alternatives?.some(alt =>
-                (validation.caseSensitive ? alt : alt.toLowerCase()) === given
-            )) {
-                score = 100;
-                feedback = 'Correct! (alternative answer accepted)';
+                feedback = match.matched === correctText ? 'Correct!' : 'Correct! (alternative answer accepted)';
+            } else if (match.status === 'close') {
+                score = closeAnswerCredit(exercise);
+                feedback = closeAnswerFeedback(match);
             } else {
                 score = 0;
                 feedback = 'Incorrect. Review the solution for the correct answer.';
@@ -704,9 +1605,52 @@ export function validateAnswer(
         }
     }
 
+    const misconception = score < 100 ? detectMisconception(exercise, userAnswer, items, optionFeedback) : null;
+    if (misconception) {
+        feedback = `${feedback} ${misconception.explanation.replace(/([^.!?])$/, '$1.')}`;
+    }
+
+    return {
+        ...finalizeScore(exercise, score, feedback, hintsUsed, timeTaken, previousAttempts),
+        ...(optionFeedback ? { optionFeedback } : {}),
+        ...(items ? { items } : {}),
+        ...(misconception ? { misconception } : {}),
+        ...(misplacedItems ? { misplacedItems } : {}),
+        ...(wordDiff ? { wordDiff } : {}),
+        ...(forms ? { forms } : {}),
+    };
+}
+
+/**
+ * Result for an answer a teacher graded after it was left for review, with the usual penalties
+ */
+export function scoreReviewedAnswer(
+    exercise: Exercise,
+    teacherScore: number,
+    feedback: string,
+    hintsUsed: number,
+    timeTaken: number,
+    previousAttempts: number
+): AnswerValidation {
+    return finalizeScore(exercise, Math.max(0, Math.min(100, teacherScore)), feedback, hintsUsed, timeTaken, previousAttempts);
+}
+
+/**
+ * Apply hint, time and retry penalties to a raw score and decide pass/fail
+ */
+function finalizeScore(
+    exercise: Exercise,
+    rawScore: number,
+    feedback: string,
+    hintsUsed: number,
+    timeTaken: number,
+    previousAttempts: number
+): AnswerValidation {
+    const { validation, problem } = exercise;
+
     // Apply hint penalty
     const hintPenalty = hintsUsed * validation.hintPenalty;
-    score = Math.max(0, score - hintPenalty);
+    let score = Math.max(0, rawScore - hintPenalty);
 
     // Apply time penalty if applicable
     if (validation.timePenalty && problem.timeLimit && timeTaken > problem.timeLimit) {
@@ -715,6 +1659,13 @@ export function validateAnswer(
         score = Math.max(0, score - timePenaltyAmount);
     }
 
+    // Apply retry penalty for each earlier attempt; it lowers a passing answer's score but never fails it
+    const { retryPenalty } = attemptPolicy(exercise);
+    if (retryPenalty && previousAttempts > 0) {
+        const floor = score >= validation.passingScore ? validation.passingScore : 0;
+        score = Math.max(floor, score - previousAttempts * retryPenalty);
+    }
+
     const passed = score >= validation.passingScore;
     const pointsEarned = Math.round((score / 100) * problem.maxPoints);
 
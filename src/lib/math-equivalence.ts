@@ -0,0 +1,358 @@
+/**
+ * Math Equivalence
+ * Decides whether a typed math answer is equivalent to the key, not just textually equal.
+ *
+ * Answers are read as one of:
+ * - solution set:  "x = 2 or x = 3", "3, 2", "{2, 3}", "x ∈ {2, 3}", "x = 1 ± √2", "no solution"
+ * - equation:      "y = 2x + 1" (equivalent to "2x - y + 1 = 0": same zero set up to a constant factor)
+ * - expression:    "(x - 2)(x - 3)" (equivalent to "x² - 5x + 6")
+ * Expressions and equations are compared by evaluating both at seeded random points, so grading is
+ * deterministic. Solution sets earn partial credit for each solution found, minus wrong extras.
+ */
+
+import { evaluateExpression, expressionVariables, isReservedName, parseExpression } from './expression-evaluator';
+import type { ExpressionNode, ExpressionScope } from './expression-evaluator';
+import type { Exercise, ValidationRules } from '../types/exercise';
+
+export type MathAnswer =
+    | { kind: 'set'; items: Array<{ variable?: string; value: number }> }
+    | { kind: 'equation'; left: ExpressionNode; right: ExpressionNode; variables: string[] }
+    | { kind: 'expression'; node: ExpressionNode; variables: string[] };
+
+export interface MathCheckResult {
+    score: number;
+    feedback: string;
+    equivalent: boolean;
+}
+
+/** Random points tried when comparing expressions; points outside either domain are skipped */
+const SAMPLE_ATTEMPTS = 24;
+
+/** Points that must evaluate on both sides for a comparison to count */
+const MIN_VALID_SAMPLES = 6;
+
+/** Relative difference treated as equal when comparing expressions */
+const EXPRESSION_TOLERANCE = 1e-7;
+
+/** Default relative tolerance for solution values (so 2.414 matches 1 + √2) */
+const DEFAULT_SET_TOLERANCE = 1e-3;
+
+const EMPTY_SET = /^(no (real )?solutions?|none|∅|\{\s*\}|empty set)$/i;
+
+const SUPERSCRIPTS: Record<string, string> = {
+    '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁻': '-',
+};
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+/** Letter runs this long that are not function names are words, not products of variables */
+const MIN_WORD_LENGTH = 4;
+
+/**
+ * Rewrite typed math into the evaluator's syntax: superscripts, √, and short letter products (xy = x*y).
+ * Throws on words, so "silent" is never read as an anagram-equivalent product of variables.
+ */
+function prepare(text: string): string {
+    const word = (text.match(/\p{L}+/gu) || []).find(run => run.length >= MIN_WORD_LENGTH && !isReservedName(run));
+    if (word) {
+        throw new Error(`"${word}" is not math`);
+    }
+    return text
+        .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, run => '^(' + [...run].map(ch => SUPERSCRIPTS[ch]).join('') + ')')
+        .replace(/√\s*\(/g, 'sqrt(')
+        .replace(/√\s*(\d+(?:\.\d+)?|\p{L})/gu, 'sqrt($1)')
+        .replace(/\p{L}{2,}/gu, word => isReservedName(word) ? word : [...word].join('*'))
+        .trim();
+}
+
+/**
+ * Split on commas, semicolons, "or" and "and" outside parentheses
+ */
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '(' || ch === '[') depth++;
+        if (ch === ')' || ch === ']') depth--;
+
+        const word = /^\s+(or|and)\s+/i.exec(text.slice(i));
+        if (depth === 0 && (ch === ',' || ch === ';' || word)) {
+            parts.push(current);
+            current = '';
+            if (word) i += word[0].length - 1;
+            continue;
+        }
+        current += ch;
+    }
+    parts.push(current);
+    return parts.map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Constant values of one solution-set entry ("x = 1 ± √2" gives two); null if it is not a constant
+ */
+function setEntry(part: string): Array<{ variable?: string; value: number }> | null {
+    let variable: string | undefined;
+    let valueText = part;
+
+    const assignment = /^([\p{L}_][\p{L}\p{N}_]*)\s*=\s*(.+)$/u.exec(part);
+    if (assignment) {
+        variable = assignment[1];
+        valueText = assignment[2];
+    }
+
+    const variants = valueText.includes('±')
+        ? [valueText.replace('±', '+'), valueText.replace('±', '-')]
+        : [valueText];
+
+    const entries: Array<{ variable?: string; value: number }> = [];
+    for (const variant of variants) {
+        try {
+            const node = parseExpression(prepare(variant));
+            if (expressionVariables(node).length > 0) return null;
+            const value = evaluateExpression(node);
+            if (!Number.isFinite(value)) return null;
+            entries.push({ variable, value });
+        } catch {
+            return null;
+        }
+    }
+    return entries;
+}
+
+/**
+ * Read a typed math answer; null when it is not math (e.g. a sentence)
+ */
+export function parseMathAnswer(input: unknown): MathAnswer | null {
+    if (typeof input === 'number') {
+        return Number.isFinite(input) ? { kind: 'set', items: [{ value: input }] } : null;
+    }
+    if (typeof input !== 'string') return null;
+
+    let text = input.trim().replace(/[−–]/g, '-').replace(/\.$/, '');
+    if (!text) return null;
+    if (EMPTY_SET.test(text)) return { kind: 'set', items: [] };
+
+    // "x ∈ {2, 3}" / "{2, 3}"
+    text = text.replace(/^[\p{L}_]\s*(∈|in)\s*(?=\{)/u, '').replace(/^\{(.*)\}$/, '$1');
+
+    const parts = splitTopLevel(text);
+    if (parts.length > 1 || text.includes('±')) {
+        const items = parts.map(setEntry);
+        return items.every(Boolean) ? { kind: 'set', items: items.flat() as Array<{ variable?: string; value: number }> } : null;
+    }
+
+    try {
+        const sides = text.split('=');
+        if (sides.length === 2) {
+            const left = parseExpression(prepare(sides[0]));
+            const right = parseExpression(prepare(sides[1]));
+            const variables = [...new Set([...expressionVariables(left), ...expressionVariables(right)])];
+            const single = setEntry(text);
+            if (single && left.kind === 'variable') {
+                return { kind: 'set', items: single };
+            }
+            return { kind: 'equation', left, right, variables };
+        }
+        if (sides.length > 2) return null;
+
+        const node = parseExpression(prepare(text));
+        const variables = expressionVariables(node);
+        if (variables.length === 0) {
+            const value = evaluateExpression(node);
+            return Number.isFinite(value) ? { kind: 'set', items: [{ value }] } : null;
+        }
+        return { kind: 'expression', node, variables };
+    } catch {
+        return null;
+    }
+}
+
+// =============================================================================
+// COMPARISON
+// =============================================================================
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32)
+ */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Random scopes for the given variables, values in ±[0.5, 3.5]
+ */
+function* samplePoints(variables: string[]): Generator<ExpressionScope> {
+    const random = seededRandom(0x5eed + variables.length);
+    for (let i = 0; i < SAMPLE_ATTEMPTS; i++) {
+        const scope: ExpressionScope = {};
+        for (const name of variables) {
+            scope[name] = (random() < 0.5 ? -1 : 1) * (0.5 + random() * 3);
+        }
+        yield scope;
+    }
+}
+
+function close(a: number, b: number, tolerance: number): boolean {
+    return Math.abs(a - b) <= tolerance * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+function tryEvaluate(node: ExpressionNode, scope: ExpressionScope): number | null {
+    try {
+        const value = evaluateExpression(node, scope);
+        return Number.isFinite(value) ? value : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Whether two expressions agree at random points
+ */
+export function expressionsEquivalent(a: ExpressionNode, b: ExpressionNode): boolean {
+    const variables = [...new Set([...expressionVariables(a), ...expressionVariables(b)])];
+    let valid = 0;
+
+    for (const scope of samplePoints(variables)) {
+        const left = tryEvaluate(a, scope);
+        const right = tryEvaluate(b, scope);
+        if (left === null || right === null) continue;
+        if (!close(left, right, EXPRESSION_TOLERANCE)) return false;
+        valid++;
+    }
+    return valid >= (variables.length === 0 ? 1 : MIN_VALID_SAMPLES);
+}
+
+/**
+ * Whether two equations have the same zero set: (L1 - R1) = k (L2 - R2) for a constant k ≠ 0
+ */
+export function equationsEquivalent(
+    a: { left: ExpressionNode; right: ExpressionNode },
+    b: { left: ExpressionNode; right: ExpressionNode }
+): boolean {
+    const f: ExpressionNode = { kind: 'binary', op: '-', left: a.left, right: a.right };
+    const g: ExpressionNode = { kind: 'binary', op: '-', left: b.left, right: b.right };
+    const variables = [...new Set([...expressionVariables(f), ...expressionVariables(g)])];
+    let ratio: number | null = null;
+    let valid = 0;
+
+    for (const scope of samplePoints(variables)) {
+        const fv = tryEvaluate(f, scope);
+        const gv = tryEvaluate(g, scope);
+        if (fv === null || gv === null) continue;
+
+        const fZero = Math.abs(fv) < EXPRESSION_TOLERANCE;
+        const gZero = Math.abs(gv) < EXPRESSION_TOLERANCE;
+        if (fZero || gZero) {
+            if (fZero !== gZero) return false;
+            continue;
+        }
+
+        const r = fv / gv;
+        if (ratio === null) ratio = r;
+        else if (!close(r, ratio, EXPRESSION_TOLERANCE * 10)) return false;
+        valid++;
+    }
+    return ratio !== null && valid >= MIN_VALID_SAMPLES;
+}
+
+/**
+ * Compare a typed answer with the key; null when either side is not readable as math
+ */
+export function checkMathAnswer(
+    correctAnswer: unknown,
+    userAnswer: unknown,
+    validation: ValidationRules
+): MathCheckResult | null {
+    const key = parseMathAnswer(correctAnswer);
+    const given = parseMathAnswer(userAnswer);
+    if (!key || !given) return null;
+
+    const correct: MathCheckResult = { score: 100, feedback: 'Correct!', equivalent: true };
+    const wrong = (feedback = 'Incorrect.'): MathCheckResult =>
+        ({ score: 0, feedback, equivalent: false });
+
+    if (key.kind === 'set' && given.kind === 'set') {
+        return compareSets(key.items, given.items, validation);
+    }
+
+    if (key.kind === 'expression' && given.kind === 'expression') {
+        return expressionsEquivalent(key.node, given.node) ? correct : wrong();
+    }
+
+    if (key.kind === 'equation' && given.kind === 'equation') {
+        return equationsEquivalent(key, given) ? correct : wrong();
+    }
+
+    // "y = 2x + 1" answered as "2x + 1"
+    if (key.kind === 'equation' && given.kind === 'expression' && key.left.kind === 'variable'
+        && !given.variables.includes(key.left.name)) {
+        return expressionsEquivalent(key.right, given.node) ? correct : wrong();
+    }
+
+    if (key.kind === 'set' && given.kind !== 'set') {
+        return wrong('Give the solution values, e.g. "x = 2 or x = 3".');
+    }
+
+    return wrong();
+}
+
+function compareSets(
+    key: Array<{ variable?: string; value: number }>,
+    given: Array<{ variable?: string; value: number }>,
+    validation: ValidationRules
+): MathCheckResult {
+    const tolerance = validation.tolerance || DEFAULT_SET_TOLERANCE;
+    const matches = (a: { variable?: string; value: number }, b: { variable?: string; value: number }) =>
+        close(a.value, b.value, tolerance) && (!a.variable || !b.variable || a.variable === b.variable);
+
+    if (key.length === 0) {
+        return given.length === 0
+            ? { score: 100, feedback: 'Correct! There is no solution.', equivalent: true }
+            : { score: 0, feedback: 'Incorrect. There is no solution.', equivalent: false };
+    }
+
+    const found = key.filter(k => given.some(g => matches(k, g))).length;
+    const extras = given.filter(g => !key.some(k => matches(k, g))).length;
+
+    if (found === key.length && extras === 0) {
+        return { score: 100, feedback: 'Correct!', equivalent: true };
+    }
+
+    const score = validation.allowPartialCredit ? Math.max(0, (found - extras) / key.length) * 100 : 0;
+    const feedback = key.length === 1
+        ? 'Incorrect.'
+        : `You found ${found} of ${key.length} solutions` +
+          (extras > 0 ? ` and gave ${extras} that ${extras === 1 ? 'is not a solution' : 'are not solutions'}` : '') + '.';
+
+    return { score, feedback, equivalent: false };
+}
+
+/**
+ * Whether an exercise's answers should be checked for mathematical equivalence
+ */
+export function usesMathEquivalence(exercise: Exercise): boolean {
+    return exercise.validation.mathEquivalence ?? exercise.subject === 'mathematics';
+}
+
+/**
+ * Whether a stored answer key needs the math checker rather than the numeric grader
+ * (solution sets, equations and expressions with variables)
+ */
+export function isSymbolicKey(correctAnswer: unknown): boolean {
+    if (typeof correctAnswer !== 'string') return false;
+    const key = parseMathAnswer(correctAnswer);
+    return !!key && (key.kind !== 'set' || key.items.length !== 1);
+}
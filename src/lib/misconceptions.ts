@@ -0,0 +1,110 @@
+/**
+ * Misconceptions
+ * Finds the misunderstanding behind a wrong answer so feedback can explain it:
+ * - multiple choice: the rationale of a wrong option the learner picked
+ * - otherwise: an entry of solution.commonMistakes that mentions a wrong value the learner gave,
+ *   preferring one that quotes it ("'hablo' — present instead of preterite") over one that
+ *   merely contains it; numbers are compared by value
+ */
+
+import type {
+    Exercise,
+    ItemResult,
+    Misconception,
+    MultipleChoiceContent,
+    OptionFeedback,
+} from '../types/exercise';
+import { normalizeAnswer, textMatchOptions } from './text-matcher';
+import type { TextMatchOptions } from './text-matcher';
+
+/** Shortest answer matched inside a mistake's wording ("a" or "el" would match everything) */
+const MIN_CONTAINED_LENGTH = 3;
+
+/** Quoted text; an apostrophe inside a word ("don't") does not open a quote */
+const QUOTED = /(?<![\p{L}\d])["“'‘«]([^"“”«»\n]+?)["”'’»](?![\p{L}\d])/gu;
+const NUMBER = /[-+]?\d+(?:[.,]\d+)?/g;
+
+/**
+ * Wrong values in an answer: the given values of wrong parts, or the answer itself
+ */
+function wrongValues(userAnswer: unknown, items?: ItemResult[]): string[] {
+    if (items && items.length > 0) {
+        return items
+            .filter(item => (item.status === 'wrong' || item.status === 'close') && item.given)
+            .map(item => item.given as string);
+    }
+    if (typeof userAnswer === 'string' || typeof userAnswer === 'number') {
+        return [String(userAnswer)];
+    }
+    return [];
+}
+
+function asNumber(text: string): number | null {
+    const trimmed = text.trim().replace(',', '.');
+    return /^[-+]?\d+(\.\d+)?$/.test(trimmed) ? parseFloat(trimmed) : null;
+}
+
+/**
+ * How clearly a mistake describes this answer: 2 quoted, 1 mentioned, 0 not at all
+ */
+function mentionStrength(mistake: string, answer: string, options: TextMatchOptions): number {
+    const value = normalizeAnswer(answer, options);
+    if (!value) return 0;
+
+    for (const [, quoted] of mistake.matchAll(QUOTED)) {
+        if (normalizeAnswer(quoted, options) === value) return 2;
+    }
+
+    const number = asNumber(answer);
+    if (number !== null) {
+        const mentioned = (mistake.match(NUMBER) || []).some(n => {
+            const candidate = parseFloat(n.replace(',', '.'));
+            return Math.abs(candidate - number) <= 1e-9 * Math.max(1, Math.abs(number));
+        });
+        return mentioned ? 1 : 0;
+    }
+
+    if ([...value].length < MIN_CONTAINED_LENGTH) return 0;
+    return ` ${normalizeAnswer(mistake, options)} `.includes(` ${value} `) ? 1 : 0;
+}
+
+/**
+ * The misconception behind a wrong answer, if the exercise describes one
+ */
+export function detectMisconception(
+    exercise: Exercise,
+    userAnswer: unknown,
+    items?: ItemResult[],
+    optionFeedback?: OptionFeedback[]
+): Misconception | null {
+    if (exercise.type === 'multiple-choice' && optionFeedback) {
+        const options = (exercise.problem.content as MultipleChoiceContent).options || [];
+        for (const picked of optionFeedback.filter(o => o.status === 'wrong')) {
+            const option = options.find(o => o.id === picked.id);
+            if (option?.rationale) {
+                return { source: 'distractor', answer: option.text, explanation: option.rationale };
+            }
+        }
+    }
+
+    const mistakes = (exercise.solution.commonMistakes || []).filter(m => typeof m === 'string' && m.trim());
+    if (mistakes.length === 0) return null;
+
+    const matchOptions: TextMatchOptions = { ...textMatchOptions(exercise), ignoreArticles: false };
+    const values = exercise.type === 'multiple-choice' && optionFeedback
+        ? optionFeedback
+            .filter(o => o.status === 'wrong')
+            .map(o => (exercise.problem.content as MultipleChoiceContent).options.find(opt => opt.id === o.id)?.text || '')
+        : wrongValues(userAnswer, items);
+
+    let best: { strength: number; misconception: Misconception | null } = { strength: 0, misconception: null };
+    for (const answer of values) {
+        for (const mistake of mistakes) {
+            const strength = mentionStrength(mistake, answer, matchOptions);
+            if (strength > best.strength) {
+                best = { strength, misconception: { source: 'common-mistake', answer, explanation: mistake.trim() } };
+            }
+        }
+    }
+    return best.misconception;
+}
@@ -0,0 +1,258 @@
+/**
+ * Neuron Budget
+ * Daily Workers AI spend ledger and budget-aware model routing.
+ *
+ * Workers AI bills in neurons and resets the free allowance at 00:00 UTC. We can't read the
+ * real meter from a Worker, so every call is estimated from prompt and response size
+ * (~4 characters per token) and per-model rates, and the day's total is kept in
+ * EXERCISES_KV (`neurons:{YYYY-MM-DD}`). KV is eventually consistent, so concurrent requests
+ * can under-count slightly; the thresholds below leave headroom for that.
+ *
+ * Routing as the day's budget depletes:
+ * - reasoning-class models need at least PREMIUM_MIN_REMAINING of the budget left
+ * - below LOW_BUDGET_FRACTION only the cheapest model in the chain is used
+ * - when no model can afford a call, exercises come from the D1/static bank
+ * A share of the budget (CHILD_NEURON_RESERVE percent) is held back for child accounts.
+ */
+
+import type { Env } from '../types/exercise';
+
+/** Workers AI free tier allowance */
+export const DEFAULT_DAILY_NEURON_BUDGET = 10000;
+
+/** Percentage of the daily budget only child accounts may spend */
+export const DEFAULT_CHILD_RESERVE_PERCENT = 20;
+
+/** Remaining fraction below which only the cheapest model is used (and pool refills stop) */
+export const LOW_BUDGET_FRACTION = 0.2;
+
+/** Remaining fraction needed before a reasoning-class model may be used */
+const PREMIUM_MIN_REMAINING = 0.5;
+
+/** Input rate (neurons/M tokens) at which a model counts as reasoning-class */
+const PREMIUM_INPUT_RATE = 20000;
+
+/** Approximate characters per token for estimation */
+const CHARS_PER_TOKEN = 4;
+
+/** Ledger entries outlive their day briefly so the admin view can show yesterday */
+const LEDGER_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+interface ModelRate {
+    /** Neurons per million input tokens */
+    input: number;
+    /** Neurons per million output tokens */
+    output: number;
+}
+
+/** Published Workers AI rates for the models we route to */
+const MODEL_RATES: Record<string, ModelRate> = {
+    '@cf/meta/llama-3.2-1b-instruct': { input: 2457, output: 18252 },
+    '@cf/meta/llama-3.2-3b-instruct': { input: 4625, output: 30475 },
+    '@cf/meta/llama-3.1-8b-instruct-fast': { input: 4119, output: 34868 },
+    '@cf/qwen/qwq-32b': { input: 60000, output: 90909 },
+};
+
+/** Conservative rate for models not listed above */
+const UNKNOWN_MODEL_RATE: ModelRate = { input: 25000, output: 75000 };
+
+interface NeuronLedger {
+    date: string;
+    used: number;
+    calls: number;
+    byModel: Record<string, number>;
+    updatedAt: string;
+}
+
+/**
+ * Budget available to one request, decremented as its calls are made
+ */
+export interface NeuronBudget {
+    date: string;
+    dailyBudget: number;
+    /** Neurons held back for child accounts */
+    childReserve: number;
+    /** Spent today before this request */
+    usedBefore: number;
+    /** Spent by this request, per model */
+    spent: Record<string, number>;
+    /** Neurons this request may still spend */
+    remaining: number;
+    isChild: boolean;
+}
+
+function today(): string {
+    return new Date().toISOString().split('T')[0];
+}
+
+function ledgerKey(date: string): string {
+    return `neurons:${date}`;
+}
+
+function dailyBudget(env: Env): number {
+    return parseInt(env.DAILY_NEURON_BUDGET) || DEFAULT_DAILY_NEURON_BUDGET;
+}
+
+function childReserve(env: Env): number {
+    const percent = parseInt(env.CHILD_NEURON_RESERVE);
+    return Math.round(dailyBudget(env) * (isNaN(percent) ? DEFAULT_CHILD_RESERVE_PERCENT : percent) / 100);
+}
+
+async function readLedger(env: Env, date: string): Promise<NeuronLedger> {
+    const raw = env.EXERCISES_KV ? await env.EXERCISES_KV.get(ledgerKey(date)) : null;
+    if (!raw) {
+        return { date, used: 0, calls: 0, byModel: {}, updatedAt: new Date().toISOString() };
+    }
+    return JSON.parse(raw) as NeuronLedger;
+}
+
+function modelRate(model: string): ModelRate {
+    return MODEL_RATES[model] || UNKNOWN_MODEL_RATE;
+}
+
+/**
+ * Estimated token count of a text
+ */
+export function estimateTokens(text: string | number): number {
+    const chars = typeof text === 'number' ? text : text.length;
+    return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimated neurons for a call with the given input and output token counts
+ */
+export function estimateNeurons(model: string, inputTokens: number, outputTokens: number): number {
+    const rate = modelRate(model);
+    return Math.ceil((inputTokens * rate.input + outputTokens * rate.output) / 1_000_000);
+}
+
+/**
+ * Load today's budget for a request; children may also spend the reserve
+ */
+export async function getNeuronBudget(env: Env, isChild = false): Promise<NeuronBudget> {
+    const date = today();
+    const ledger = await readLedger(env, date);
+    const budget = dailyBudget(env);
+    const reserve = childReserve(env);
+    const ceiling = isChild ? budget : budget - reserve;
+
+    return {
+        date,
+        dailyBudget: budget,
+        childReserve: reserve,
+        usedBefore: ledger.used,
+        spent: {},
+        remaining: Math.max(0, ceiling - ledger.used),
+        isChild,
+    };
+}
+
+/**
+ * Fraction of the caller's share of the budget still available (0-1)
+ */
+export function remainingFraction(budget: NeuronBudget): number {
+    const ceiling = budget.isChild ? budget.dailyBudget : budget.dailyBudget - budget.childReserve;
+    return ceiling > 0 ? budget.remaining / ceiling : 0;
+}
+
+/**
+ * Charge a call to the request's budget
+ */
+export function spendNeurons(budget: NeuronBudget, model: string, neurons: number): void {
+    if (neurons <= 0) return;
+    budget.spent[model] = (budget.spent[model] || 0) + neurons;
+    budget.remaining = Math.max(0, budget.remaining - neurons);
+}
+
+/**
+ * Models from the fallback chain this request can afford, in chain order.
+ * Each must fit a worst-case call (prompt plus `maxTokens` output); reasoning-class models
+ * need half the budget left, and a low budget keeps only the cheapest model.
+ */
+export function affordableModels(
+    budget: NeuronBudget,
+    modelFallbackChain: string[],
+    promptChars: number,
+    maxTokens: number
+): string[] {
+    const fraction = remainingFraction(budget);
+    const worstCase = (model: string) => estimateNeurons(model, estimateTokens(promptChars), maxTokens);
+
+    const affordable = modelFallbackChain.filter(model =>
+        worstCase(model) <= budget.remaining &&
+        (modelRate(model).input < PREMIUM_INPUT_RATE || fraction >= PREMIUM_MIN_REMAINING)
+    );
+
+    if (fraction >= LOW_BUDGET_FRACTION || affordable.length <= 1) {
+        return affordable;
+    }
+
+    const cheapest = affordable.reduce((best, model) => worstCase(model) < worstCase(best) ? model : best);
+    return [cheapest];
+}
+
+/**
+ * Add a request's spend to today's ledger.
+ * Handed to waitUntil when available so the ledger write never delays the response.
+ */
+export async function recordNeuronUsage(
+    env: Env,
+    budget: NeuronBudget,
+    waitUntil?: (promise: Promise<unknown>) => void
+): Promise<void> {
+    const models = Object.keys(budget.spent);
+    if (models.length === 0 || !env.EXERCISES_KV) return;
+
+    const write = (async () => {
+        const ledger = await readLedger(env, budget.date);
+        for (const model of models) {
+            ledger.used += budget.spent[model];
+            ledger.byModel[model] = (ledger.byModel[model] || 0) + budget.spent[model];
+        }
+        ledger.calls += 1;
+        ledger.updatedAt = new Date().toISOString();
+        await env.EXERCISES_KV.put(ledgerKey(budget.date), JSON.stringify(ledger), {
+            expirationTtl: LEDGER_TTL_SECONDS,
+        });
+    })().catch(err => console.warn('[NEURON-BUDGET] Ledger write failed:', err));
+
+    if (waitUntil) {
+        waitUntil(write);
+    } else {
+        await write;
+    }
+}
+
+/**
+ * Today's spend for the admin view
+ */
+export async function getBudgetReport(env: Env) {
+    const date = today();
+    const ledger = await readLedger(env, date);
+    const budget = dailyBudget(env);
+    const reserve = childReserve(env);
+    const generalCeiling = budget - reserve;
+    const generalRemaining = Math.max(0, generalCeiling - ledger.used);
+    const fraction = generalCeiling > 0 ? generalRemaining / generalCeiling : 0;
+
+    const resetsAt = new Date(`${date}T00:00:00Z`);
+    resetsAt.setUTCDate(resetsAt.getUTCDate() + 1);
+
+    return {
+        date,
+        dailyBudget: budget,
+        childReserve: reserve,
+        used: ledger.used,
+        remaining: Math.max(0, budget - ledger.used),
+        remainingForAdults: generalRemaining,
+        routing: generalRemaining === 0
+            ? 'bank-only'
+            : fraction < LOW_BUDGET_FRACTION
+                ? 'cheapest-model'
+                : fraction < PREMIUM_MIN_REMAINING ? 'no-reasoning-models' : 'full',
+        requests: ledger.calls,
+        byModel: ledger.byModel,
+        resetsAt: resetsAt.toISOString(),
+        updatedAt: ledger.updatedAt,
+    };
+}
@@ -0,0 +1,387 @@
+/**
+ * Numeric Answer
+ * Parses typed numeric answers and grades calculation exercises.
+ *
+ * Accepted forms: 42, -3.5, 3,5 (decimal comma), 1,000, 3/4, 1 3/4, 75%, 6.0e2, 6.0 × 10^2,
+ * 6.0·10⁻³, "x = 3", each optionally followed by a unit (60 km/h, 9.8 m/s^2, 25 °C, 0.5 mol/L).
+ * Answers in compatible units are converted before comparing; significant figures are checked
+ * when CalculationContent.sigFigs is set. Unknown units are not compared. Plain numbers (not typed
+ * text, e.g. a verifier's answer) are taken to be in the key's units with no precision to check.
+ */
+
+import type { CalculationContent, ValidationRules } from '../types/exercise';
+
+/** Share of the score kept for a right value with wrong/missing units or wrong significant figures */
+export const PARTIAL_NUMERIC_CREDIT = 50;
+
+const DEFAULT_RELATIVE_TOLERANCE = 0.01;
+
+export interface NumericAnswer {
+    value: number;
+    /** Unit text as typed (empty when none) */
+    unit: string;
+    /** Possible significant figures of the typed number ("600" could be 1-3); null for fractions */
+    sigFigs: { min: number; max: number } | null;
+    /** Typed as a percentage */
+    percent: boolean;
+}
+
+export type NumericGradeStatus = 'correct' | 'missing-units' | 'wrong-units' | 'sig-figs' | 'wrong' | 'unreadable';
+
+export interface NumericGradeResult {
+    score: number;
+    feedback: string;
+    status: NumericGradeStatus;
+}
+
+// =============================================================================
+// UNITS
+// =============================================================================
+
+/** Exponents of the SI base dimensions: m, kg, s, A, K, mol, cd */
+type Dimension = [number, number, number, number, number, number, number];
+
+interface UnitDefinition {
+    dimension: Dimension;
+    /** Multiply by this to get SI base units */
+    factor: number;
+    /** Added after scaling (temperatures only) */
+    offset?: number;
+    /** Accepts SI prefixes (km, mg, µs, kPa, ...) */
+    prefixable?: boolean;
+}
+
+export interface ParsedUnit {
+    dimension: Dimension;
+    factor: number;
+    offset: number;
+}
+
+const dim = (m = 0, kg = 0, s = 0, A = 0, K = 0, mol = 0, cd = 0): Dimension => [m, kg, s, A, K, mol, cd];
+
+const UNITS: Record<string, UnitDefinition> = {
+    // SI base and derived
+    m: { dimension: dim(1), factor: 1, prefixable: true },
+    g: { dimension: dim(0, 1), factor: 1e-3, prefixable: true },
+    s: { dimension: dim(0, 0, 1), factor: 1, prefixable: true },
+    A: { dimension: dim(0, 0, 0, 1), factor: 1, prefixable: true },
+    K: { dimension: dim(0, 0, 0, 0, 1), factor: 1, prefixable: true },
+    mol: { dimension: dim(0, 0, 0, 0, 0, 1), factor: 1, prefixable: true },
+    cd: { dimension: dim(0, 0, 0, 0, 0, 0, 1), factor: 1 },
+    N: { dimension: dim(1, 1, -2), factor: 1, prefixable: true },
+    J: { dimension: dim(2, 1, -2), factor: 1, prefixable: true },
+    W: { dimension: dim(2, 1, -3), factor: 1, prefixable: true },
+    Pa: { dimension: dim(-1, 1, -2), factor: 1, prefixable: true },
+    Hz: { dimension: dim(0, 0, -1), factor: 1, prefixable: true },
+    C: { dimension: dim(0, 0, 1, 1), factor: 1, prefixable: true },
+    V: { dimension: dim(2, 1, -3, -1), factor: 1, prefixable: true },
+    'Ω': { dimension: dim(2, 1, -3, -2), factor: 1, prefixable: true },
+    ohm: { dimension: dim(2, 1, -3, -2), factor: 1, prefixable: true },
+    L: { dimension: dim(3), factor: 1e-3, prefixable: true },
+    l: { dimension: dim(3), factor: 1e-3, prefixable: true },
+    eV: { dimension: dim(2, 1, -2), factor: 1.602176634e-19, prefixable: true },
+    cal: { dimension: dim(2, 1, -2), factor: 4.184, prefixable: true },
+    M: { dimension: dim(-3, 0, 0, 0, 0, 1), factor: 1e3 },
+    mM: { dimension: dim(-3, 0, 0, 0, 0, 1), factor: 1 },
+
+    // Time
+    min: { dimension: dim(0, 0, 1), factor: 60 },
+    h: { dimension: dim(0, 0, 1), factor: 3600 },
+    hr: { dimension: dim(0, 0, 1), factor: 3600 },
+    day: { dimension: dim(0, 0, 1), factor: 86400 },
+
+    // Imperial and other common units
+    in: { dimension: dim(1), factor: 0.0254 },
+    ft: { dimension: dim(1), factor: 0.3048 },
+    yd: { dimension: dim(1), factor: 0.9144 },
+    mi: { dimension: dim(1), factor: 1609.344 },
+    mph: { dimension: dim(1, 0, -1), factor: 0.44704 },
+    kph: { dimension: dim(1, 0, -1), factor: 1 / 3.6 },
+    lb: { dimension: dim(0, 1), factor: 0.45359237 },
+    oz: { dimension: dim(0, 1), factor: 0.028349523125 },
+    t: { dimension: dim(0, 1), factor: 1000 },
+    atm: { dimension: dim(-1, 1, -2), factor: 101325 },
+    bar: { dimension: dim(-1, 1, -2), factor: 1e5 },
+    mmHg: { dimension: dim(-1, 1, -2), factor: 133.322387415 },
+    torr: { dimension: dim(-1, 1, -2), factor: 101325 / 760 },
+
+    // Temperature (offsets apply to a lone temperature unit only)
+    '°C': { dimension: dim(0, 0, 0, 0, 1), factor: 1, offset: 273.15 },
+    '°F': { dimension: dim(0, 0, 0, 0, 1), factor: 5 / 9, offset: 459.67 * 5 / 9 },
+
+    // Dimensionless
+    '%': { dimension: dim(), factor: 0.01 },
+    rad: { dimension: dim(), factor: 1 },
+    '°': { dimension: dim(), factor: Math.PI / 180 },
+    deg: { dimension: dim(), factor: Math.PI / 180 },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+    sec: 's', secs: 's', second: 's', seconds: 's',
+    mins: 'min', minute: 'min', minutes: 'min',
+    hrs: 'h', hour: 'h', hours: 'h', days: 'day',
+    meter: 'm', meters: 'm', metre: 'm', metres: 'm',
+    kilometer: 'km', kilometers: 'km', kilometre: 'km', kilometres: 'km',
+    gram: 'g', grams: 'g', kilogram: 'kg', kilograms: 'kg',
+    liter: 'L', liters: 'L', litre: 'L', litres: 'L',
+    newton: 'N', newtons: 'N', joule: 'J', joules: 'J', watt: 'W', watts: 'W',
+    volt: 'V', volts: 'V', ohms: 'Ω', pascal: 'Pa', pascals: 'Pa',
+    degrees: '°', degree: '°', celsius: '°C', fahrenheit: '°F', kelvin: 'K',
+    percent: '%', moles: 'mol', inch: 'in', inches: 'in', feet: 'ft', foot: 'ft',
+    mile: 'mi', miles: 'mi', pounds: 'lb', lbs: 'lb', 'km/hr': 'km/h', kmh: 'km/h',
+    '℃': '°C', '℉': '°F', 'degC': '°C', 'degF': '°F',
+};
+
+const PREFIXES: Record<string, number> = {
+    T: 1e12, G: 1e9, M: 1e6, k: 1e3, h: 1e2, d: 1e-1, c: 1e-2, m: 1e-3, 'µ': 1e-6, 'μ': 1e-6, u: 1e-6, n: 1e-9, p: 1e-12,
+};
+
+function lookupUnit(symbol: string): UnitDefinition | null {
+    const name = UNIT_ALIASES[symbol] || UNIT_ALIASES[symbol.toLowerCase()] || symbol;
+    if (UNITS[name]) return UNITS[name];
+
+    for (const [prefix, scale] of Object.entries(PREFIXES)) {
+        const base = UNITS[name.slice(prefix.length)];
+        if (name.startsWith(prefix) && base?.prefixable) {
+            return { dimension: base.dimension, factor: base.factor * scale };
+        }
+    }
+    return null;
+}
+
+/**
+ * Parse a unit such as "km/h", "m s^-2", "kg·m/s²" or "J/(mol·K)"; null if any part is unknown
+ */
+export function parseUnit(text: string): ParsedUnit | null {
+    let unit = replaceSuperscripts(text).trim().replace(/\.$/, '');
+    unit = UNIT_ALIASES[unit] || UNIT_ALIASES[unit.toLowerCase()] || unit;
+    if (!unit) return null;
+
+    const lone = lookupUnit(unit);
+    if (lone) {
+        return { dimension: [...lone.dimension] as Dimension, factor: lone.factor, offset: lone.offset || 0 };
+    }
+
+    const dimension = dim();
+    let factor = 1;
+    const [numerator, ...denominators] = unit.replace(/[()]/g, ' ').split('/');
+    const parts = [
+        ...numerator.split(/[\s·*⋅]+/).map(term => ({ term, sign: 1 })),
+        ...denominators.flatMap(d => d.split(/[\s·*⋅]+/).map(term => ({ term, sign: -1 }))),
+    ].filter(part => part.term && part.term !== '1');
+
+    if (parts.length === 0) return null;
+
+    for (const { term, sign } of parts) {
+        const match = /^(.+?)\^?(-?\d+)?$/.exec(term);
+        const definition = match && lookupUnit(match[1]);
+        if (!match || !definition) return null;
+
+        const power = sign * (match[2] ? parseInt(match[2], 10) : 1);
+        definition.dimension.forEach((exponent, i) => { dimension[i] += exponent * power; });
+        factor *= Math.pow(definition.factor, power);
+    }
+
+    return { dimension, factor, offset: 0 };
+}
+
+function sameDimension(a: ParsedUnit, b: ParsedUnit): boolean {
+    return a.dimension.every((exponent, i) => exponent === b.dimension[i]);
+}
+
+/**
+ * Convert a value between compatible units (null when the dimensions differ)
+ */
+export function convertValue(value: number, from: ParsedUnit, to: ParsedUnit): number | null {
+    if (!sameDimension(from, to)) return null;
+    return (value * from.factor + from.offset - to.offset) / to.factor;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const SUPERSCRIPTS: Record<string, string> = {
+    '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁻': '-', '⁺': '+',
+};
+
+function replaceSuperscripts(text: string): string {
+    return text.replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻⁺]+/g, run => '^' + [...run].map(ch => SUPERSCRIPTS[ch]).join(''));
+}
+
+/**
+ * Possible significant figures of a typed decimal number
+ */
+function countSigFigs(mantissa: string): { min: number; max: number } {
+    const digits = mantissa.replace(/^[-+]/, '');
+    if (digits.includes('.')) {
+        const significant = digits.replace('.', '').replace(/^0+/, '');
+        const count = Math.max(1, significant.length);
+        return { min: count, max: count };
+    }
+    const significant = digits.replace(/^0+/, '');
+    if (!significant) return { min: 1, max: 1 };
+    const trailingZeros = significant.length - significant.replace(/0+$/, '').length;
+    return { min: Math.max(1, significant.length - trailingZeros), max: significant.length };
+}
+
+/**
+ * Parse a typed numeric answer with an optional unit
+ */
+export function parseNumericAnswer(input: unknown): { answer: NumericAnswer | null; error: string | null } {
+    if (typeof input === 'number') {
+        return Number.isFinite(input)
+            ? { answer: { value: input, unit: '', sigFigs: null, percent: false }, error: null }
+            : { answer: null, error: 'not a finite number' };
+    }
+    if (typeof input !== 'string' || !input.trim()) {
+        return { answer: null, error: 'no answer given' };
+    }
+
+    // "x = 3" / "v = 12 m/s": keep the right-hand side
+    let text = replaceSuperscripts(input.slice(input.lastIndexOf('=') + 1))
+        .replace(/[−–]/g, '-')
+        .trim();
+
+    // Thousands separators (1,000,000), then a decimal comma (3,5)
+    text = text
+        .replace(/^([-+]?\d{1,3}(?:,\d{3})+)(?![\d,])/, group => group.replace(/,/g, ''))
+        .replace(/^([-+]?\d+),(\d+)/, '$1.$2');
+
+    const mixed = /^([-+]?)(\d+)\s+(\d+)\s*\/\s*(\d+)(?![\d.])/.exec(text);
+    const fraction = !mixed && /^([-+]?)(\d*\.?\d+)\s*\/\s*(\d*\.?\d+)(?![\d.])/.exec(text);
+    const decimal = !mixed && !fraction
+        && /^([-+]?(?:\d+\.?\d*|\.\d+))(?:\s*[eE]\s*([-+]?\d+)|\s*[x×*·]\s*10\s*(?:\^|\*\*)\s*\(?([-+]?\d+)\)?)?/.exec(text);
+
+    let value: number;
+    let consumed: number;
+    let sigFigs: NumericAnswer['sigFigs'] = null;
+
+    if (mixed) {
+        const sign = mixed[1] === '-' ? -1 : 1;
+        value = sign * (parseInt(mixed[2], 10) + parseInt(mixed[3], 10) / parseInt(mixed[4], 10));
+        consumed = mixed[0].length;
+    } else if (fraction) {
+        value = (fraction[1] === '-' ? -1 : 1) * parseFloat(fraction[2]) / parseFloat(fraction[3]);
+        consumed = fraction[0].length;
+    } else if (decimal) {
+        const exponent = decimal[2] ?? decimal[3];
+        value = parseFloat(decimal[1]) * (exponent !== undefined ? Math.pow(10, parseInt(exponent, 10)) : 1);
+        consumed = decimal[0].length;
+        sigFigs = countSigFigs(decimal[1]);
+    } else {
+        return { answer: null, error: `"${input.trim()}" is not a number` };
+    }
+
+    if (!Number.isFinite(value)) {
+        return { answer: null, error: 'the answer is not a finite number (division by zero?)' };
+    }
+
+    const unit = text.slice(consumed).trim();
+    return { answer: { value, unit, sigFigs, percent: unit === '%' }, error: null };
+}
+
+// =============================================================================
+// GRADING
+// =============================================================================
+
+/**
+ * Grade a calculation answer against its key ({ value, tolerance } or a plain number)
+ */
+export function gradeNumericAnswer(
+    content: CalculationContent,
+    correctAnswer: unknown,
+    userAnswer: unknown,
+    validation: ValidationRules
+): NumericGradeResult {
+    const key = readKey(correctAnswer, content, validation);
+    if (!key) {
+        return { score: 0, feedback: 'This exercise has no numeric answer key.', status: 'wrong' };
+    }
+
+    const { answer, error } = parseNumericAnswer(userAnswer);
+    if (!answer) {
+        return { score: 0, feedback: `Could not read your answer: ${error}.`, status: 'unreadable' };
+    }
+
+    const expected = `${key.value}${key.unit ? ` ${key.unit}` : ''}`;
+    const within = (value: number) => Math.abs(value - key.value) <= key.tolerance;
+    const partial = validation.allowPartialCredit ? PARTIAL_NUMERIC_CREDIT : 0;
+
+    const keyUnit = key.unit ? parseUnit(key.unit) : null;
+    const givenUnit = answer.unit ? parseUnit(answer.unit) : null;
+
+    // Value in the key's units; units are only compared when both sides are known
+    let converted: number | null = answer.value;
+    let unitProblem: 'missing-units' | 'wrong-units' | null = null;
+
+    if (key.unit && !answer.unit && typeof userAnswer === 'string') {
+        unitProblem = 'missing-units';
+    } else if (keyUnit && givenUnit) {
+        converted = convertValue(answer.value, givenUnit, keyUnit);
+        if (converted === null) unitProblem = 'wrong-units';
+    } else if (!key.unit && givenUnit && answer.percent) {
+        // "75%" for a plain 0.75 key
+        converted = within(answer.value) ? answer.value : answer.value / 100;
+    }
+
+    if (converted === null || !within(converted)) {
+        if (within(answer.value) && answer.unit && key.unit) {
+            return {
+                score: partial,
+                feedback: `Right value, wrong units: the answer should be in ${key.unit}, not ${answer.unit}.`,
+                status: 'wrong-units',
+            };
+        }
+        return { score: 0, feedback: 'Incorrect.', status: 'wrong' };
+    }
+
+    if (unitProblem === 'missing-units') {
+        return validation.requireUnits
+            ? { score: partial, feedback: `Right value, but include the units (${key.unit}).`, status: 'missing-units' }
+            : { score: 100, feedback: `Correct! Remember to include the units (${key.unit}).`, status: 'missing-units' };
+    }
+
+    if (content.sigFigs && answer.sigFigs
+        && (content.sigFigs < answer.sigFigs.min || content.sigFigs > answer.sigFigs.max)) {
+        return {
+            score: partial,
+            feedback: `Right value, but give it to ${content.sigFigs} significant figure${content.sigFigs === 1 ? '' : 's'} (${expected}).`,
+            status: 'sig-figs',
+        };
+    }
+
+    return { score: 100, feedback: 'Correct!', status: 'correct' };
+}
+
+/**
+ * The exercise's unit, or '' for unitless answers (content.units missing, empty or "none")
+ */
+function contentUnit(content: CalculationContent): string {
+    const unit = (content.units ?? '').trim();
+    return unit.toLowerCase() === 'none' ? '' : unit;
+}
+
+/**
+ * Expected value, absolute tolerance and unit from the stored answer key
+ */
+function readKey(
+    correctAnswer: unknown,
+    content: CalculationContent,
+    validation: ValidationRules
+): { value: number; tolerance: number; unit: string } | null {
+    const relative = (value: number) => Math.abs(value) * (validation.tolerance || DEFAULT_RELATIVE_TOLERANCE) || Number.EPSILON;
+
+    if (typeof correctAnswer === 'number') {
+        return { value: correctAnswer, tolerance: relative(correctAnswer), unit: contentUnit(content) };
+    }
+    if (correctAnswer && typeof correctAnswer === 'object' && typeof (correctAnswer as any).value === 'number') {
+        const { value, tolerance } = correctAnswer as { value: number; tolerance?: number };
+        return { value, tolerance: typeof tolerance === 'number' ? tolerance : relative(value), unit: contentUnit(content) };
+    }
+    if (typeof correctAnswer === 'string') {
+        const { answer } = parseNumericAnswer(correctAnswer);
+        return answer ? { value: answer.value, tolerance: relative(answer.value), unit: content.units ? contentUnit(content) : answer.unit } : null;
+    }
+    return null;
+}
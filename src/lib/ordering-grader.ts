@@ -0,0 +1,124 @@
+/**
+ * Ordering Grader
+ * Scores ordering answers (an array of item ids) and reports which items are out of place.
+ *
+ * Scoring (ValidationRules.orderingScoring):
+ * - exact:    100 only when every item is in its correct position
+ * - position: share of items sitting in their correct position
+ * - pairwise: share of item pairs in the correct relative order (Kendall tau rescaled to 0-100,
+ *             so a fully reversed order scores 0); one item moved far away costs only its own pairs
+ * Without allowPartialCredit, exact applies. Missing items count as misplaced; unknown ids are ignored.
+ */
+
+import type { OrderingContent, OrderingScoring, ValidationRules } from '../types/exercise';
+
+export interface OrderingGradeResult {
+    score: number;
+    feedback: string;
+    /** Item ids that need to move (the fewest moves that fix the order) */
+    misplacedItems: string[];
+}
+
+/**
+ * Item ids from an answer given as an id list or "i2, i1, i3", keeping the first occurrence of each
+ */
+function orderedIds(userAnswer: unknown): string[] {
+    const raw = Array.isArray(userAnswer)
+        ? userAnswer
+        : typeof userAnswer === 'string' ? userAnswer.split(',') : [];
+    return [...new Set(raw.map(id => String(id).trim()).filter(Boolean))];
+}
+
+/**
+ * Indexes (into `ranks`) of one longest strictly increasing subsequence.
+ * These items are already in the right relative order; everything else has to move.
+ */
+function longestIncreasingRun(ranks: number[]): Set<number> {
+    const tails: number[] = [];
+    const previous: number[] = new Array(ranks.length).fill(-1);
+
+    ranks.forEach((rank, i) => {
+        let lo = 0;
+        let hi = tails.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (ranks[tails[mid]] < rank) lo = mid + 1;
+            else hi = mid;
+        }
+        previous[i] = lo > 0 ? tails[lo - 1] : -1;
+        tails[lo] = i;
+    });
+
+    const kept = new Set<number>();
+    for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i >= 0; i = previous[i]) {
+        kept.add(i);
+    }
+    return kept;
+}
+
+/**
+ * Grade an ordering answer
+ */
+export function gradeOrdering(
+    content: OrderingContent,
+    correctAnswer: unknown,
+    userAnswer: unknown,
+    validation: ValidationRules
+): OrderingGradeResult {
+    const correct = Array.isArray(correctAnswer) ? correctAnswer.map(String) : orderedIds(correctAnswer);
+    const rank = new Map(correct.map((id, i) => [id, i]));
+    const given = orderedIds(userAnswer).filter(id => rank.has(id));
+    const total = correct.length;
+
+    if (total === 0) {
+        return { score: 0, feedback: 'This exercise has no answer key.', misplacedItems: [] };
+    }
+
+    const position = new Map(given.map((id, i) => [id, i]));
+    const inPlace = correct.filter((id, i) => given[i] === id).length;
+
+    const givenRanks = given.map(id => rank.get(id)!);
+    const kept = longestIncreasingRun(givenRanks);
+    const misplacedItems = [
+        ...given.filter((_, i) => !kept.has(i)),
+        ...correct.filter(id => !position.has(id)),
+    ];
+
+    const scoring: OrderingScoring = validation.allowPartialCredit
+        ? validation.orderingScoring || 'pairwise'
+        : 'exact';
+
+    let score: number;
+    switch (scoring) {
+        case 'exact':
+            score = inPlace === total ? 100 : 0;
+            break;
+
+        case 'position':
+            score = (inPlace / total) * 100;
+            break;
+
+        case 'pairwise': {
+            // Pairs involving a missing item count as discordant
+            const pairs = (total * (total - 1)) / 2;
+            let concordant = 0;
+            for (let a = 0; a < total; a++) {
+                for (let b = a + 1; b < total; b++) {
+                    const pa = position.get(correct[a]);
+                    const pb = position.get(correct[b]);
+                    if (pa !== undefined && pb !== undefined && pa < pb) concordant++;
+                }
+            }
+            score = pairs > 0 ? (concordant / pairs) * 100 : (inPlace === total ? 100 : 0);
+            break;
+        }
+    }
+
+    const textOf = new Map((content.items || []).map(item => [item.id, item.text]));
+    const feedback = misplacedItems.length === 0
+        ? 'Correct! Everything is in the right order.'
+        : `${inPlace} of ${total} item${total === 1 ? ' is' : 's are'} in the right place. ` +
+          `Try moving: ${misplacedItems.map(id => textOf.get(id) || id).join(', ')}.`;
+
+    return { score, feedback, misplacedItems };
+}
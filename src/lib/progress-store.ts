@@ -0,0 +1,125 @@
+/**
+ * Progress Store
+ * Learner history in D1: every graded submission is appended to `user_progress`, and
+ * `user_skills` is recomputed for the exercise's subject and category after each one.
+ *
+ * Skills count each exercise once, by the learner's best submission:
+ * - total_points:        best points earned, summed over attempted exercises
+ * - exercises_completed: exercises passed
+ * - avg_score:           average best score over attempted exercises
+ * - current_level:       hardest difficulty with LEVEL_UP_PASSES exercises passed
+ *
+ * Answers left for teacher review are recorded when graded (review-queue.ts), not while pending.
+ * Only signed-in learners are recorded. A submission whose exercise is not (yet) in the D1
+ * `exercises` table cannot be stored (foreign key) and is skipped with a warning.
+ */
+
+import type { DifficultyLevel, Env, Exercise } from '../types/exercise';
+
+/** Exercises to pass at a difficulty before it becomes the learner's level */
+export const LEVEL_UP_PASSES = 3;
+
+const LEVEL_ORDER: DifficultyLevel[] = ['beginner', 'elementary', 'intermediate', 'advanced', 'expert'];
+
+export interface SubmissionRecord {
+    answer: unknown;
+    score: number;
+    passed: boolean;
+    pointsEarned: number;
+    hintsUsed: number;
+    timeTaken: number;
+}
+
+interface DifficultyRollup {
+    difficulty: DifficultyLevel;
+    attempted: number;
+    passed: number;
+    points: number;
+    score_sum: number;
+}
+
+/**
+ * Append a graded submission and update the learner's skill for the exercise's subject and category
+ */
+export async function recordSubmission(
+    env: Env,
+    userId: string,
+    exercise: Exercise,
+    submission: SubmissionRecord
+): Promise<void> {
+    if (!env.EDU_DB) return;
+
+    try {
+        await env.EDU_DB.prepare(`
+            INSERT INTO user_progress
+                (user_id, exercise_id, answer_json, score, passed, points_earned, hints_used, time_taken_seconds)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).bind(
+            userId,
+            exercise.id,
+            JSON.stringify(submission.answer ?? null),
+            Math.round(submission.score),
+            submission.passed ? 1 : 0,
+            submission.pointsEarned,
+            submission.hintsUsed,
+            Math.round(submission.timeTaken)
+        ).run();
+    } catch (err) {
+        console.warn(`[PROGRESS] Could not record submission for ${exercise.id}:`, err);
+        return;
+    }
+
+    try {
+        await rollUpSkill(env.EDU_DB, userId, exercise);
+    } catch (err) {
+        console.warn(`[PROGRESS] Could not update skill ${exercise.subject}/${exercise.category} for ${userId}:`, err);
+    }
+}
+
+/**
+ * Recompute the learner's user_skills row for the exercise's subject and category
+ */
+async function rollUpSkill(db: D1Database, userId: string, exercise: Exercise): Promise<void> {
+    const { results } = await db.prepare(`
+        SELECT e.difficulty AS difficulty,
+               COUNT(*) AS attempted,
+               SUM(best.passed) AS passed,
+               SUM(best.points) AS points,
+               SUM(best.score) AS score_sum
+        FROM (
+            SELECT exercise_id,
+                   MAX(score) AS score,
+                   MAX(points_earned) AS points,
+                   MAX(passed) AS passed
+            FROM user_progress
+            WHERE user_id = ?
+            GROUP BY exercise_id
+        ) best
+        JOIN exercises e ON e.id = best.exercise_id
+        WHERE e.subject = ? AND e.category = ?
+        GROUP BY e.difficulty
+    `).bind(userId, exercise.subject, exercise.category).all<DifficultyRollup>();
+
+    const rows = results || [];
+    const attempted = rows.reduce((sum, row) => sum + row.attempted, 0);
+    if (attempted === 0) return;
+
+    const passed = rows.reduce((sum, row) => sum + (row.passed || 0), 0);
+    const points = rows.reduce((sum, row) => sum + (row.points || 0), 0);
+    const avgScore = Math.round((rows.reduce((sum, row) => sum + (row.score_sum || 0), 0) / attempted) * 10) / 10;
+    const level = LEVEL_ORDER.filter(difficulty =>
+        rows.some(row => row.difficulty === difficulty && (row.passed || 0) >= LEVEL_UP_PASSES)
+    ).pop() || LEVEL_ORDER[0];
+
+    await db.prepare(`
+        INSERT INTO user_skills
+            (user_id, subject, category, current_level, total_points, exercises_completed, avg_score, last_activity)
+        VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+        ON CONFLICT(user_id, subject, category) DO UPDATE SET
+            current_level = excluded.current_level,
+            total_points = excluded.total_points,
+            exercises_completed = excluded.exercises_completed,
+            avg_score = excluded.avg_score,
+            last_activity = excluded.last_activity
+    `).bind(userId, exercise.subject, exercise.category, level, points, passed, avgScore).run();
+}
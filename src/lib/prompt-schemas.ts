@@ -0,0 +1,179 @@
+/**
+ * Exercise Type Prompt Schemas
+ * Per-type content shapes and answer formats given to the model during generation.
+ * Each schema mirrors a ProblemContent interface and the answer format validateAnswer expects.
+ */
+
+import type { ExerciseType } from '../types/exercise';
+
+interface ExerciseTypeSchema {
+    /** Example content object for the prompt */
+    content: string;
+    /** Shape of solution.correctAnswer */
+    answer: string;
+}
+
+export const EXERCISE_TYPE_SCHEMAS: Record<ExerciseType, ExerciseTypeSchema> = {
+    'multiple-choice': {
+        content: `{
+  "type": "multiple-choice",
+  "question": "the question",
+  "options": [
+    { "id": "a", "text": "option text", "rationale": "for a wrong option: the misunderstanding that leads students to pick it" },
+    { "id": "b", "text": "option text" },
+    { "id": "c", "text": "option text", "rationale": "..." },
+    { "id": "d", "text": "option text", "rationale": "..." }
+  ],
+  "multiSelect": false
+}`,
+        answer: 'the id of the correct option as a string, e.g. "b"; when multiSelect is true, an array of every correct option id, e.g. ["a", "c"] (options that are only partly right may set "isPartiallyCorrect": true)',
+    },
+
+    'fill-blank': {
+        content: `{
+  "type": "fill-blank",
+  "template": "Text with [BLANK] markers",
+  "blankCount": 1,
+  "wordBank": ["option1", "option2"]
+}`,
+        answer: 'an array of strings with one entry per [BLANK], in order, e.g. ["went"]; blankCount must equal the number of [BLANK] markers',
+    },
+
+    'matching': {
+        content: `{
+  "type": "matching",
+  "leftColumn": [{ "id": "l1", "text": "term" }, { "id": "l2", "text": "term" }],
+  "rightColumn": [{ "id": "r1", "text": "definition" }, { "id": "r2", "text": "definition" }]
+}`,
+        answer: 'an object mapping every leftColumn id to its rightColumn id, e.g. { "l1": "r2", "l2": "r1" }',
+    },
+
+    'ordering': {
+        content: `{
+  "type": "ordering",
+  "items": [{ "id": "i1", "text": "item" }, { "id": "i2", "text": "item" }, { "id": "i3", "text": "item" }],
+  "orderBy": "what the order is based on, e.g. earliest to latest"
+}`,
+        answer: 'an array of every item id in the correct order, e.g. ["i2", "i3", "i1"]',
+    },
+
+    'true-false': {
+        content: `{
+  "type": "true-false",
+  "statements": [{ "id": "s1", "text": "statement" }, { "id": "s2", "text": "statement" }]
+}`,
+        answer: 'an array of booleans, one per statement in order, e.g. [true, false]',
+    },
+
+    'short-answer': {
+        content: `{
+  "type": "short-answer",
+  "question": "the question",
+  "maxLength": 100
+}`,
+        answer: 'a short string no longer than maxLength',
+    },
+
+    'long-answer': {
+        content: `{
+  "type": "long-answer",
+  "question": "the question",
+  "rubricPoints": ["point the answer must cover", "another point"],
+  "minLength": 200,
+  "maxLength": 1500
+}`,
+        answer: 'a model answer string covering every rubric point',
+    },
+
+    'proof': {
+        content: `{
+  "type": "proof",
+  "statement": "statement to prove",
+  "given": ["given fact"],
+  "proofMethod": "direct"
+}`,
+        answer: 'the complete proof as a string; also list each logical step in solution.steps. proofMethod is one of direct, contradiction, induction, contrapositive',
+    },
+
+    'calculation': {
+        content: `{
+  "type": "calculation",
+  "problem": "the problem statement",
+  "variables": { "x": 5 },
+  "units": "meters"
+}`,
+        answer: 'a number, or { "value": number, "tolerance": number } — never a sentence or a number with units. Also give solution.formula: an expression that computes the answer using only the variable names, numbers, + - * / ^, parentheses and functions like sqrt, e.g. "(v - u) / t"; it is evaluated to check the answer',
+    },
+
+    'translation': {
+        content: `{
+  "type": "translation",
+  "sourceText": "text to translate",
+  "sourceLanguage": "en",
+  "targetLanguage": "es",
+  "register": "neutral"
+}`,
+        answer: 'the reference translation as a string; register is one of formal, informal, neutral',
+    },
+
+    'conjugation': {
+        content: `{
+  "type": "conjugation",
+  "verb": "hablar",
+  "language": "es",
+  "tense": "preterite",
+  "mood": "indicative",
+  "subjects": ["yo", "tú", "él/ella"]
+}`,
+        answer: 'an object mapping every subject to its conjugated form, e.g. { "yo": "hablé", "tú": "hablaste", "él/ella": "habló" }',
+    },
+
+    'diagram': {
+        content: `{
+  "type": "diagram",
+  "description": "what the diagram shows and where each numbered marker points",
+  "markers": [{ "id": "1", "position": "top left, the outer layer" }, { "id": "2", "position": "centre" }],
+  "labelBank": ["label", "label"]
+}`,
+        answer: 'an object mapping every marker id to its label, e.g. { "1": "cell membrane", "2": "nucleus" }',
+    },
+
+    'coding': {
+        content: `{
+  "type": "coding",
+  "description": "what the program must do, including input and output format",
+  "language": "javascript",
+  "starterCode": "function solve(input) {\\n  // your code\\n}",
+  "testCases": [
+    { "input": "example input", "expectedOutput": "expected output" },
+    { "input": "edge case input", "expectedOutput": "expected output", "hidden": true }
+  ]
+}`,
+        answer: 'a complete reference solution as a string that passes every test case',
+    },
+
+    'derivation': {
+        content: `{
+  "type": "derivation",
+  "startingPoint": "law, definition or equation to start from",
+  "target": "result to derive",
+  "assumptions": ["assumption"]
+}`,
+        answer: 'the derived result as a string; list each derivation step in solution.steps with its formula',
+    },
+};
+
+/**
+ * Describe the content shape and answer format for each requested type
+ */
+export function describeExerciseTypes(types: ExerciseType[]): string {
+    return types
+        .filter(type => EXERCISE_TYPE_SCHEMAS[type])
+        .map(type => {
+            const schema = EXERCISE_TYPE_SCHEMAS[type];
+            return `For ${type} exercises, content should be:
+${schema.content}
+and solution.correctAnswer should be ${schema.answer}.`;
+        })
+        .join('\n\n');
+}
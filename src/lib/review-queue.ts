@@ -0,0 +1,151 @@
+/**
+ * Review Queue
+ * Answers the rubric grader left for a teacher (pendingReview) are stored in the D1
+ * `review_queue` table with what is needed to score them later: the answer, the learner,
+ * and the hints, time and earlier attempts their penalties are computed from.
+ *
+ * A teacher lists pending answers and records a 0-100 score for each; the learner can look
+ * the result up by the review id returned from /validate.
+ */
+
+import type { Env } from '../types/exercise';
+
+/** Maximum rows returned by listReviews */
+const MAX_LIST_LIMIT = 200;
+
+export type ReviewStatus = 'pending' | 'graded';
+
+export interface ReviewSubmission {
+    id: number;
+    exerciseId: string;
+    userId?: string;
+    learnerKey: string;
+    answer: unknown;
+    hintsUsed: number;
+    timeTaken: number;
+    previousAttempts: number;
+    status: ReviewStatus;
+    submittedAt: string;
+    score?: number;
+    passed?: boolean;
+    pointsEarned?: number;
+    feedback?: string;
+    reviewedBy?: string;
+    reviewedAt?: string;
+}
+
+export interface ReviewRequest {
+    exerciseId: string;
+    userId?: string;
+    learnerKey: string;
+    answer: unknown;
+    hintsUsed: number;
+    timeTaken: number;
+    previousAttempts: number;
+}
+
+export interface ReviewGrade {
+    score: number;
+    passed: boolean;
+    pointsEarned: number;
+    feedback: string;
+}
+
+function rowToReview(row: Record<string, any>): ReviewSubmission {
+    return {
+        id: row.id,
+        exerciseId: row.exercise_id,
+        ...(row.user_id ? { userId: row.user_id } : {}),
+        learnerKey: row.learner_key,
+        answer: JSON.parse(row.answer_json),
+        hintsUsed: row.hints_used || 0,
+        timeTaken: row.time_taken_seconds || 0,
+        previousAttempts: row.previous_attempts || 0,
+        status: row.status,
+        submittedAt: row.submitted_at,
+        ...(row.status === 'graded' ? {
+            score: row.score,
+            passed: !!row.passed,
+            pointsEarned: row.points_earned,
+            feedback: row.feedback,
+            reviewedBy: row.reviewed_by,
+            reviewedAt: row.reviewed_at,
+        } : {}),
+    };
+}
+
+/**
+ * Queue an answer for a teacher; returns the review id, or null when it could not be stored
+ */
+export async function queueForReview(env: Env, request: ReviewRequest): Promise<number | null> {
+    if (!env.EDU_DB) return null;
+
+    try {
+        const row = await env.EDU_DB.prepare(`
+            INSERT INTO review_queue
+                (exercise_id, user_id, learner_key, answer_json, hints_used, time_taken_seconds, previous_attempts)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            RETURNING id
+        `).bind(
+            request.exerciseId,
+            request.userId ?? null,
+            request.learnerKey,
+            JSON.stringify(request.answer ?? null),
+            request.hintsUsed,
+            Math.round(request.timeTaken),
+            request.previousAttempts
+        ).first<{ id: number }>();
+        return row?.id ?? null;
+    } catch (err) {
+        console.error(`[REVIEWS] Could not queue an answer to ${request.exerciseId} for review:`, err);
+        return null;
+    }
+}
+
+export async function getReview(env: Env, id: number): Promise<ReviewSubmission | null> {
+    if (!env.EDU_DB) return null;
+    const row = await env.EDU_DB.prepare('SELECT * FROM review_queue WHERE id = ?').bind(id).first<Record<string, any>>();
+    return row ? rowToReview(row) : null;
+}
+
+/**
+ * Reviews, oldest first
+ */
+export async function listReviews(
+    env: Env,
+    filters: { status?: ReviewStatus; exerciseId?: string; limit?: number } = {}
+): Promise<ReviewSubmission[]> {
+    if (!env.EDU_DB) return [];
+
+    const conditions = ['status = ?'];
+    const bindings: (string | number)[] = [filters.status || 'pending'];
+    if (filters.exerciseId) {
+        conditions.push('exercise_id = ?');
+        bindings.push(filters.exerciseId);
+    }
+
+    const result = await env.EDU_DB.prepare(`
+        SELECT * FROM review_queue
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY submitted_at ASC, id ASC
+        LIMIT ?
+    `).bind(...bindings, Math.min(filters.limit || 50, MAX_LIST_LIMIT)).all<Record<string, any>>();
+
+    return (result.results || []).map(rowToReview);
+}
+
+/**
+ * Record a teacher's grade; false when the review does not exist or was already graded
+ */
+export async function completeReview(env: Env, id: number, grade: ReviewGrade, reviewedBy: string): Promise<boolean> {
+    if (!env.EDU_DB) return false;
+
+    const result = await env.EDU_DB.prepare(`
+        UPDATE review_queue
+        SET status = 'graded', score = ?, passed = ?, points_earned = ?, feedback = ?,
+            reviewed_by = ?, reviewed_at = datetime('now')
+        WHERE id = ? AND status = 'pending'
+    `).bind(grade.score, grade.passed ? 1 : 0, grade.pointsEarned, grade.feedback, reviewedBy, id).run();
+
+    return (result.meta?.changes ?? 0) > 0;
+}
@@ -0,0 +1,174 @@
+/**
+ * Student View
+ * What learners may see of an exercise and its grading:
+ * - exercises are sent without solution, hints, hidden test cases, option rationales,
+ *   verifier answers or validation internals (toStudentExercise)
+ * - the solution is revealed per ValidationRules.revealPolicy, judged from the learner's
+ *   attempt state, or for everyone once a teacher releases it (EXERCISES_KV `release:{id}`)
+ * - until then, graded results leave out the expected values of wrong parts (withholdAnswers)
+ *
+ * Once a learner may see the solution, /validate accepts no further answers from them.
+ */
+
+import type {
+    Env,
+    Exercise,
+    ItemResult,
+    OptionFeedback,
+    ProblemContent,
+    StudentExercise,
+    StudentValidationRules,
+    WordDiffToken,
+} from '../types/exercise';
+import { attemptPolicy, type AttemptState } from './attempt-state';
+
+/** Failed attempts before after-attempts reveals the solution */
+export const DEFAULT_REVEAL_AFTER_ATTEMPTS = 3;
+
+export interface SolutionRelease {
+    releasedBy: string;
+    releasedAt: string;
+}
+
+export interface RevealDecision {
+    revealed: boolean;
+    /** Why the solution is (not yet) available, for the learner */
+    reason: string;
+}
+
+function releaseStorageKey(exerciseId: string): string {
+    return `release:${exerciseId}`;
+}
+
+/**
+ * Problem content without answer-revealing parts
+ */
+function studentContent(content: ProblemContent): ProblemContent {
+    switch (content.type) {
+        case 'multiple-choice':
+            return { ...content, options: content.options.map(({ id, text }) => ({ id, text })) };
+        case 'coding':
+            return { ...content, testCases: content.testCases.filter(test => !test.hidden) };
+        case 'ordering': {
+            // Shuffled, in case the items were stored in their correct order
+            const items = [...content.items];
+            for (let i = items.length - 1; i > 0; i--) {
+                const j = Math.floor(Math.random() * (i + 1));
+                [items[i], items[j]] = [items[j], items[i]];
+            }
+            return { ...content, items };
+        }
+        default:
+            return content;
+    }
+}
+
+/**
+ * The exercise as it may be sent to a learner
+ */
+export function toStudentExercise(exercise: Exercise): StudentExercise {
+    const { solution, hints, validation, metadata, problem, ...rest } = exercise;
+    const { verification, ...publicMetadata } = metadata;
+
+    const { maxAttempts, retryPenalty } = attemptPolicy(exercise);
+    const rules: StudentValidationRules = {
+        passingScore: validation.passingScore,
+        allowPartialCredit: validation.allowPartialCredit,
+        caseSensitive: validation.caseSensitive,
+        requireUnits: validation.requireUnits,
+        hintPenalty: validation.hintPenalty,
+        timePenalty: validation.timePenalty,
+        maxAttempts,
+        retryPenalty,
+        revealPolicy: validation.revealPolicy,
+        multiSelectScoring: validation.multiSelectScoring,
+        orderingScoring: validation.orderingScoring,
+    };
+
+    return {
+        ...rest,
+        problem: { ...problem, content: studentContent(problem.content) },
+        hintCount: hints.length,
+        validation: rules,
+        metadata: {
+            ...publicMetadata,
+            ...(verification ? { verification: { status: verification.status, verifiedAt: verification.verifiedAt } } : {}),
+        },
+    };
+}
+
+export async function getSolutionRelease(env: Env, exerciseId: string): Promise<SolutionRelease | null> {
+    const raw = await env.EXERCISES_KV.get(releaseStorageKey(exerciseId));
+    if (!raw) return null;
+
+    try {
+        return JSON.parse(raw) as SolutionRelease;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Reveal an exercise's solution to every learner
+ */
+export async function releaseSolution(env: Env, exerciseId: string, releasedBy: string): Promise<SolutionRelease> {
+    const release: SolutionRelease = { releasedBy, releasedAt: new Date().toISOString() };
+    await env.EXERCISES_KV.put(releaseStorageKey(exerciseId), JSON.stringify(release));
+    return release;
+}
+
+/**
+ * Whether the learner may see the solution, per the exercise's reveal policy
+ */
+export function revealDecision(exercise: Exercise, state: AttemptState, release: SolutionRelease | null): RevealDecision {
+    if (release) {
+        return { revealed: true, reason: 'Released by your teacher.' };
+    }
+
+    const policy = exercise.validation.revealPolicy || 'after-attempts';
+    if (policy === 'teacher') {
+        return { revealed: false, reason: 'Your teacher has not released the solution yet.' };
+    }
+    if (state.passed) {
+        return { revealed: true, reason: 'You passed this exercise.' };
+    }
+    if (policy === 'after-pass') {
+        return { revealed: false, reason: 'The solution is shown once you pass.' };
+    }
+
+    const needed = exercise.validation.revealAfterAttempts || DEFAULT_REVEAL_AFTER_ATTEMPTS;
+    const { maxAttempts } = attemptPolicy(exercise);
+    if (state.attempts >= needed || (maxAttempts > 0 && state.attempts >= maxAttempts)) {
+        return { revealed: true, reason: `Revealed after ${state.attempts} attempt${state.attempts === 1 ? '' : 's'}.` };
+    }
+    return {
+        revealed: false,
+        reason: `The solution is shown once you pass or after ${needed} attempts (${state.attempts} so far).`,
+    };
+}
+
+/**
+ * A graded result without the right answers to the parts the learner got wrong.
+ * Close parts keep their expected value, since it only corrects the learner's spelling.
+ */
+export function withholdAnswers<T extends {
+    items?: ItemResult[];
+    optionFeedback?: OptionFeedback[];
+    wordDiff?: WordDiffToken[];
+}>(result: T): T {
+    return {
+        ...result,
+        ...(result.items ? {
+            items: result.items.map(item => {
+                if (item.status === 'correct' || item.status === 'close') return item;
+                const { expected, ...rest } = item;
+                return rest;
+            }),
+        } : {}),
+        ...(result.optionFeedback ? {
+            optionFeedback: result.optionFeedback.map(option =>
+                option.status === 'missed' ? { ...option, status: 'neutral' as const } : option),
+        } : {}),
+        ...(result.wordDiff ? { wordDiff: result.wordDiff.filter(token => token.status !== 'missing') } : {}),
+    };
+}
@@ -0,0 +1,277 @@
+/**
+ * Text Matcher
+ * Tolerant comparison of typed answers: whitespace, case, punctuation, leading articles,
+ * diacritics and small typos, with a "close" result for answers that are nearly right.
+ *
+ * Strictness per exercise (ValidationRules):
+ * - textMatching:   exact (trim + case only), normalized (no typo tolerance) or fuzzy (default)
+ * - ignoreAccents:  fold diacritics; otherwise an accent slip is "close" (default: folded outside language exercises)
+ * - ignoreArticles: drop a leading article such as "the" or "la" (default: dropped outside language exercises)
+ * - maxTypos:       edit distance still counted as "close" (default scales with answer length)
+ * - closeAnswerCredit: score for a close answer (default 50, below the default pass mark)
+ * Without maxTypos, short words and proper nouns get no typo tolerance, since one letter
+ * often changes the meaning ("Iran" / "Iraq"); outside language exercises an accepted
+ * answer starting with a capital letter counts as a proper noun. Answers containing
+ * digits never get typo tolerance ("12" is not a typo of "13").
+ */
+
+import type { Exercise, TextMatchMode } from '../types/exercise';
+
+export type TextMatchStatus = 'exact' | 'equivalent' | 'close' | 'wrong';
+
+export interface TextMatch {
+    status: TextMatchStatus;
+    /** Accepted answer the input matched (or came closest to) */
+    matched?: string;
+    /** Why a close answer was not accepted outright */
+    reason?: 'spelling' | 'accents';
+}
+
+export interface TextMatchOptions {
+    mode: TextMatchMode;
+    caseSensitive: boolean;
+    ignoreAccents: boolean;
+    ignoreArticles: boolean;
+    maxTypos?: number;
+    /** Tolerate typos in answers starting with a capital letter (language exercises, e.g. German nouns) */
+    capitalizedTypos?: boolean;
+    /** ISO 639-1 code of the answer language */
+    language: string;
+}
+
+/** Score for a close answer: a nearly right answer is credited, but does not pass by itself */
+const DEFAULT_CLOSE_CREDIT = 50;
+
+/** Leading articles dropped when ignoreArticles is on (English always applies) */
+const ARTICLES: Record<string, string[]> = {
+    en: ['the', 'a', 'an'],
+    es: ['el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas'],
+    fr: ['le', 'la', 'les', "l'", 'un', 'une', 'des'],
+    de: ['der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer'],
+    it: ['il', 'lo', 'la', 'i', 'gli', 'le', "l'", 'un', 'uno', 'una'],
+    pt: ['o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas'],
+};
+
+/** Accepted alternative spellings, applied to both sides before comparing */
+const SPELLING_FOLDS: Record<string, Array<[RegExp, string]>> = {
+    de: [[/ä/g, 'ae'], [/ö/g, 'oe'], [/ü/g, 'ue'], [/ß/g, 'ss']],
+};
+
+/** Letters that are distinct letters, not accented ones, and survive accent folding */
+const PRESERVED_LETTERS: Record<string, string> = {
+    es: 'ñ',
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+    english: 'en',
+    spanish: 'es',
+    french: 'fr',
+    german: 'de',
+    italian: 'it',
+    portuguese: 'pt',
+};
+
+const STATUS_RANK: Record<TextMatchStatus, number> = { exact: 3, equivalent: 2, close: 1, wrong: 0 };
+
+// =============================================================================
+// OPTIONS
+// =============================================================================
+
+/**
+ * ISO 639-1 code from a code ("es", "es-MX") or an English language name ("Spanish")
+ */
+export function languageCode(language?: string): string {
+    const lower = (language || 'en').trim().toLowerCase();
+    return LANGUAGE_NAMES[lower] || lower.split(/[-_]/)[0];
+}
+
+/**
+ * Matching options for an exercise, from its validation rules, subject and language
+ */
+export function textMatchOptions(exercise: Exercise): TextMatchOptions {
+    const { validation } = exercise;
+    const isLanguage = exercise.subject === 'language';
+    const content = exercise.problem.content as { targetLanguage?: string };
+
+    return {
+        mode: validation.textMatching || 'fuzzy',
+        caseSensitive: validation.caseSensitive,
+        ignoreAccents: validation.ignoreAccents ?? !isLanguage,
+        ignoreArticles: validation.ignoreArticles ?? !isLanguage,
+        maxTypos: validation.maxTypos,
+        capitalizedTypos: isLanguage,
+        language: languageCode(content.targetLanguage || exercise.metadata?.language),
+    };
+}
+
+/**
+ * Score (0-100) for a close answer under the exercise's rules
+ */
+export function closeAnswerCredit(exercise: Exercise): number {
+    const { validation } = exercise;
+    const credit = validation.closeAnswerCredit ?? DEFAULT_CLOSE_CREDIT;
+    return credit < 100 && !validation.allowPartialCredit ? 0 : Math.max(0, Math.min(100, credit));
+}
+
+// =============================================================================
+// NORMALISATION
+// =============================================================================
+
+/**
+ * Trim, collapse whitespace and (unless case-sensitive) lowercase
+ */
+function basicForm(text: string, caseSensitive: boolean): string {
+    const collapsed = text.normalize('NFC').trim().replace(/\s+/g, ' ');
+    return caseSensitive ? collapsed : collapsed.toLowerCase();
+}
+
+/**
+ * Remove diacritics, keeping the language's own letters (Spanish ñ)
+ */
+export function foldAccents(text: string, language = 'en'): string {
+    const preserved = PRESERVED_LETTERS[language] || '';
+    return [...text.normalize('NFC')]
+        .map(ch => preserved.includes(ch.toLowerCase()) ? ch : ch.normalize('NFD').replace(/\p{M}/gu, ''))
+        .join('');
+}
+
+/**
+ * Normalised answer text used for tolerant comparison
+ */
+export function normalizeAnswer(text: string, options: TextMatchOptions, foldAll = options.ignoreAccents): string {
+    let result = basicForm(text, options.caseSensitive);
+
+    for (const [pattern, replacement] of SPELLING_FOLDS[options.language] || []) {
+        result = result.replace(pattern, replacement);
+    }
+
+    // Quotes and sentence punctuation; decimal points and commas inside numbers are kept
+    result = result
+        .replace(/[’‘`´]/g, "'")
+        .replace(/["“”«»¿¡!?;:()]/g, ' ')
+        .replace(/(?<!\d)[.,]|[.,](?!\d)/g, ' ')
+        .replace(/(\p{L})-(?=\p{L})/gu, '$1 ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    if (options.ignoreArticles) {
+        const articles = new Set([...ARTICLES.en, ...(ARTICLES[options.language] || [])]);
+        const elided = [...articles].find(article => article.endsWith("'") && result.startsWith(article));
+        if (elided) {
+            result = result.slice(elided.length).trim();
+        } else {
+            const [first, ...rest] = result.split(' ');
+            if (rest.length > 0 && articles.has(first.toLowerCase())) {
+                result = rest.join(' ');
+            }
+        }
+        result = result.replace(/^'+|'+$/g, '');
+    }
+
+    return foldAll ? foldAccents(result, options.language) : result;
+}
+
+// =============================================================================
+// MATCHING
+// =============================================================================
+
+/**
+ * Levenshtein distance, giving up once it exceeds `limit`
+ */
+export function editDistance(a: string, b: string, limit = Infinity): number {
+    const s = [...a];
+    const t = [...b];
+    if (Math.abs(s.length - t.length) > limit) return limit + 1;
+
+    let previous = Array.from({ length: t.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= s.length; i++) {
+        const current = [i];
+        let rowMin = i;
+        for (let j = 1; j <= t.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (s[i - 1] === t[j - 1] ? 0 : 1)
+            );
+            rowMin = Math.min(rowMin, current[j]);
+        }
+        if (rowMin > limit) return limit + 1;
+        previous = current;
+    }
+    return previous[t.length];
+}
+
+/**
+ * Typos tolerated for an answer of this length
+ */
+export function typoAllowance(length: number): number {
+    if (length < 6) return 0;
+    if (length < 10) return 1;
+    if (length < 15) return 2;
+    return 3;
+}
+
+/**
+ * Whether an accepted answer looks like a proper noun ("Iraq", "Mount Everest")
+ */
+function isProperNoun(accepted: string): boolean {
+    return /^\p{Lu}/u.test(accepted.trim());
+}
+
+function matchOne(given: string, accepted: string, options: TextMatchOptions): TextMatch {
+    if (basicForm(given, options.caseSensitive) === basicForm(accepted, options.caseSensitive)) {
+        return { status: 'exact', matched: accepted };
+    }
+    if (options.mode === 'exact') {
+        return { status: 'wrong', matched: accepted };
+    }
+
+    const expected = normalizeAnswer(accepted, options);
+    const answer = normalizeAnswer(given, options);
+    if (expected === answer && answer !== '') {
+        return { status: 'equivalent', matched: accepted };
+    }
+
+    const foldedExpected = options.ignoreAccents ? expected : normalizeAnswer(accepted, options, true);
+    const foldedAnswer = options.ignoreAccents ? answer : normalizeAnswer(given, options, true);
+    if (!options.ignoreAccents && foldedExpected === foldedAnswer && foldedAnswer !== '') {
+        return { status: 'close', matched: accepted, reason: 'accents' };
+    }
+
+    if (options.mode === 'fuzzy' && !/\d/.test(foldedExpected + foldedAnswer) && foldedAnswer !== '') {
+        const allowance = options.maxTypos
+            ?? (isProperNoun(accepted) && !options.capitalizedTypos ? 0 : typoAllowance([...foldedExpected].length));
+        if (allowance > 0 && editDistance(foldedAnswer, foldedExpected, allowance) <= allowance) {
+            return { status: 'close', matched: accepted, reason: 'spelling' };
+        }
+    }
+
+    return { status: 'wrong', matched: accepted };
+}
+
+/**
+ * Best match of a typed answer against the accepted answers
+ */
+export function matchTextAnswer(given: unknown, accepted: unknown[], options: TextMatchOptions): TextMatch {
+    const text = given === null || given === undefined ? '' : String(given);
+    let best: TextMatch = { status: 'wrong' };
+
+    for (const candidate of accepted) {
+        if (candidate === null || candidate === undefined) continue;
+        const match = matchOne(text, String(candidate), options);
+        if (STATUS_RANK[match.status] > STATUS_RANK[best.status]) {
+            best = match;
+            if (best.status === 'exact') break;
+        }
+    }
+    return best;
+}
+
+/**
+ * Learner-facing note for a close answer
+ */
+export function closeAnswerFeedback(match: TextMatch): string {
+    return match.reason === 'accents'
+        ? `Close — check your accents: "${match.matched}".`
+        : `Close — check your spelling: "${match.matched}".`;
+}
@@ -0,0 +1,84 @@
+/**
+ * Text Similarity Utilities
+ * Lightweight token and n-gram overlap measures used for near-duplicate detection
+ */
+
+import type { Exercise } from '../types/exercise';
+
+/** Similarity at or above which two exercises are treated as the same question */
+export const NEAR_DUPLICATE_THRESHOLD = 0.75;
+
+/**
+ * Lowercase word tokens with punctuation removed
+ */
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+        .split(/\s+/)
+        .filter(Boolean);
+}
+
+/**
+ * Jaccard similarity between two sets of strings (0-1)
+ */
+export function jaccardSimilarity(a: Iterable<string>, b: Iterable<string>): number {
+    const setA = new Set(a);
+    const setB = new Set(b);
+    if (setA.size === 0 && setB.size === 0) return 1;
+
+    let intersection = 0;
+    for (const item of setA) {
+        if (setB.has(item)) intersection++;
+    }
+    return intersection / (setA.size + setB.size - intersection);
+}
+
+/**
+ * Word bigrams (falls back to single words for one-word texts)
+ */
+function wordShingles(text: string): string[] {
+    const words = tokenize(text);
+    if (words.length < 2) return words;
+    const shingles: string[] = [];
+    for (let i = 0; i < words.length - 1; i++) {
+        shingles.push(`${words[i]} ${words[i + 1]}`);
+    }
+    return shingles;
+}
+
+/**
+ * The student-facing text of an exercise, used to compare questions
+ */
+export function exerciseFingerprint(exercise: Exercise): string {
+    const content = exercise.problem.content as any;
+    const parts = [
+        content.question,
+        content.template,
+        content.problem,
+        content.statement,
+        content.sourceText,
+        content.description,
+        content.orderBy,
+        content.verb && `${content.verb} ${content.tense}`,
+        content.startingPoint && `${content.startingPoint} ${content.target}`,
+        ...(content.statements || []).map((s: { text: string }) => s.text),
+        ...(content.leftColumn || []).map((s: { text: string }) => s.text),
+        ...(content.items || []).map((s: { text: string }) => s.text),
+    ];
+    return parts.filter(Boolean).join(' ') || exercise.problem.instruction;
+}
+
+/**
+ * Similarity of two exercises' question text (0-1)
+ */
+export function exerciseSimilarity(a: Exercise, b: Exercise): number {
+    return jaccardSimilarity(wordShingles(exerciseFingerprint(a)), wordShingles(exerciseFingerprint(b)));
+}
+
+/**
+ * Whether an exercise is a near-duplicate of any in the existing set
+ */
+export function isNearDuplicate(exercise: Exercise, existing: Exercise[]): boolean {
+    return existing.some(other => exerciseSimilarity(exercise, other) >= NEAR_DUPLICATE_THRESHOLD);
+}
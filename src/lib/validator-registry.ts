@@ -0,0 +1,96 @@
+/**
+ * Validator Registry
+ * Named grading functions selected with ValidationRules.customValidator, so subjects can add
+ * grading logic without touching validateAnswer's switch. Options for a validator come from
+ * ValidationRules.validatorOptions.
+ *
+ * The name can be set per exercise or in SubjectConfig.validationDefaults (copied onto every
+ * generated exercise of the subject). A validator that lists `types` only runs for exercises of
+ * those types; others fall through to the normal grader, so a subject-wide default does not
+ * break its other exercise types. Unknown names and validators that throw also fall through.
+ *
+ * Built-in validators are in builtin-validators.ts; workers can add their own with registerValidator.
+ */
+
+import type { Exercise, ExerciseType } from '../types/exercise';
+import { BUILTIN_VALIDATORS } from './builtin-validators';
+
+export interface CustomValidatorResult {
+    /** 0-100, before hint and time penalties */
+    score: number;
+    feedback: string;
+    /** Structured, validator-specific feedback returned to the client */
+    details?: Record<string, unknown>;
+}
+
+export interface CustomValidator {
+    name: string;
+    description: string;
+    /** Exercise types the validator applies to (all when omitted) */
+    types?: ExerciseType[];
+    validate: (exercise: Exercise, userAnswer: unknown) => CustomValidatorResult;
+}
+
+const registry = new Map<string, CustomValidator>();
+
+/**
+ * Add (or replace) a named validator
+ */
+export function registerValidator(validator: CustomValidator): void {
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(validator.name)) {
+        throw new Error(`Invalid validator name: ${validator.name} (use lowercase letters, digits and dashes)`);
+    }
+    if (registry.has(validator.name)) {
+        console.warn(`[VALIDATORS] Replacing validator ${validator.name}`);
+    }
+    registry.set(validator.name, validator);
+}
+
+export function getValidator(name: string): CustomValidator | undefined {
+    return registry.get(name);
+}
+
+/**
+ * Registered validators, for documentation and admin views
+ */
+export function listValidators(): Array<{ name: string; description: string; types?: ExerciseType[] }> {
+    return [...registry.values()].map(({ name, description, types }) => ({ name, description, types }));
+}
+
+/**
+ * The validator that grades this exercise, if one is selected and applies to its type
+ */
+export function customValidatorFor(exercise: Exercise): CustomValidator | null {
+    const name = exercise.validation?.customValidator;
+    if (!name) return null;
+
+    const validator = registry.get(name);
+    if (!validator) {
+        console.warn(`[VALIDATORS] Unknown validator ${name} on ${exercise.id}; using the default grader`);
+        return null;
+    }
+    if (validator.types && !validator.types.includes(exercise.type)) {
+        return null;
+    }
+    return validator;
+}
+
+/**
+ * Grade with the exercise's custom validator; null when there is none or it failed
+ */
+export function runCustomValidator(exercise: Exercise, userAnswer: unknown): CustomValidatorResult | null {
+    const validator = customValidatorFor(exercise);
+    if (!validator) return null;
+
+    try {
+        const result = validator.validate(exercise, userAnswer);
+        return { ...result, score: Math.max(0, Math.min(100, Number(result.score) || 0)) };
+    } catch (err: any) {
+        console.warn(`[VALIDATORS] ${validator.name} failed on ${exercise.id}; using the default grader:`, err?.message || err);
+        return null;
+    }
+}
+
+for (const validator of BUILTIN_VALIDATORS) {
+    registerValidator(validator);
+}
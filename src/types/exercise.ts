@@ -63,8 +63,13 @@ export interface Env {
     CACHE_TTL_SECONDS: string;
     MAX_EXERCISES_PER_REQUEST: string;
     RATE_LIMIT_PER_MINUTE: string;
+    DAILY_NEURON_BUDGET: string;      // Workers AI neurons per day (default 10000)
+    CHILD_NEURON_RESERVE: string;     // Percent of the daily budget reserved for child accounts
     LINGUA_API_URL: string;
     SUPPORTED_SUBJECTS: string;
+
+    // Secrets
+    ATTEMPT_TOKEN_SECRET?: string;    // HMAC key for attempt tokens (wrangler secret put)
 }
 
 // =============================================================================
@@ -94,6 +99,20 @@ export type SubjectCategory =
 
 export type DifficultyLevel = 'beginner' | 'elementary' | 'intermediate' | 'advanced' | 'expert';
 
+/**
+ * Maximum points for an exercise of a difficulty (generated, bank and fallback exercises alike)
+ */
+export function getDifficultyPoints(difficulty: DifficultyLevel): number {
+    const points: Record<DifficultyLevel, number> = {
+        beginner: 10,
+        elementary: 15,
+        intermediate: 20,
+        advanced: 30,
+        expert: 50,
+    };
+    return points[difficulty] ?? points.intermediate;
+}
+
 // =============================================================================
 // EXERCISE TYPES - Universal Format
 // =============================================================================
@@ -159,6 +178,33 @@ export interface Exercise {
     related?: string[];
 }
 
+/**
+ * Exercise as sent to learners: no solution, no hints (served one at a time by /hints)
+ * and only the validation rules that explain how the answer is scored
+ */
+export type StudentExercise = Omit<Exercise, 'solution' | 'hints' | 'validation' | 'metadata'> & {
+    hintCount: number;
+    validation: StudentValidationRules;
+    metadata: Omit<ExerciseMetadata, 'verification'> & {
+        verification?: Pick<AnswerVerification, 'status' | 'verifiedAt'>;
+    };
+};
+
+export type StudentValidationRules = Pick<
+    ValidationRules,
+    | 'passingScore'
+    | 'allowPartialCredit'
+    | 'caseSensitive'
+    | 'requireUnits'
+    | 'hintPenalty'
+    | 'timePenalty'
+    | 'maxAttempts'
+    | 'retryPenalty'
+    | 'revealPolicy'
+    | 'multiSelectScoring'
+    | 'orderingScoring'
+>;
+
 /**
  * The problem/question presentation
  */
@@ -194,7 +240,9 @@ export type ProblemContent =
     | CalculationContent
     | TranslationContent
     | ConjugationContent
-    | CodingContent;
+    | DiagramContent
+    | CodingContent
+    | DerivationContent;
 
 export interface MultipleChoiceContent {
     type: 'multiple-choice';
@@ -204,6 +252,8 @@ export interface MultipleChoiceContent {
         text: string;
         /** For multi-select questions */
         isPartiallyCorrect?: boolean;
+        /** Wrong options: the misunderstanding that makes this option tempting */
+        rationale?: string;
     }>;
     /** Allow multiple correct answers */
     multiSelect: boolean;
@@ -296,6 +346,24 @@ export interface ConjugationContent {
     subjects: string[];
 }
 
+/**
+ * Conjugation answer: each subject from ConjugationContent.subjects mapped to its form,
+ * e.g. { "yo": "hablé", "tú": "hablaste" }
+ */
+export type ConjugationAnswer = Record<string, string>;
+
+export interface DiagramContent {
+    type: 'diagram';
+    /** Text description of the diagram (what is drawn and where) */
+    description: string;
+    /** Optional rendered image */
+    imageUrl?: string;
+    /** Numbered markers the student must label */
+    markers: Array<{ id: string; position: string }>;
+    /** Candidate labels (optional) */
+    labelBank?: string[];
+}
+
 export interface CodingContent {
     type: 'coding';
     description: string;
@@ -310,6 +378,16 @@ export interface CodingContent {
     }>;
 }
 
+export interface DerivationContent {
+    type: 'derivation';
+    /** Starting equation, law or definition */
+    startingPoint: string;
+    /** Result to derive */
+    target: string;
+    /** Assumptions that may be used */
+    assumptions?: string[];
+}
+
 // =============================================================================
 // SOLUTION STRUCTURE
 // =============================================================================
@@ -330,6 +408,9 @@ export interface ExerciseSolution {
     /** Common mistakes to avoid */
     commonMistakes?: string[];
 
+    /** Calculation exercises: expression over content.variables that computes the answer */
+    formula?: string;
+
     /** Additional learning resources */
     resources?: Array<{
         title: string;
@@ -340,8 +421,8 @@ export interface ExerciseSolution {
 
 export type SolutionAnswer =
     | string                          // Simple text answer
-    | string[]                        // Multiple answers (fill-blank, multi-select)
-    | Record<string, string>          // Matching pairs (leftId -> rightId)
+    | string[]                        // Multiple answers (fill-blank, multi-select, ordering ids)
+    | Record<string, string>          // Matching pairs (leftId -> rightId), conjugation forms (ConjugationAnswer), diagram labels
     | boolean[]                       // True/false answers
     | number                          // Numerical answer
     | { value: number; tolerance: number }; // Numerical with tolerance
@@ -376,16 +457,77 @@ export interface ValidationRules {
     /** For numerical: acceptable tolerance */
     tolerance?: number;
 
-    /** Custom validation function name (for complex logic) */
+    /** For numerical: a right value without the required units only earns partial credit */
+    requireUnits?: boolean;
+
+    /** Named validator from the validator registry that grades instead of the type's grader */
     customValidator?: string;
 
+    /** Options for the custom validator (e.g. { "pattern": "..." } for regex) */
+    validatorOptions?: Record<string, unknown>;
+
     /** Points deducted per hint used */
     hintPenalty: number;
 
     /** Time penalty (points per second over limit) */
     timePenalty?: number;
+
+    /** Graded attempts allowed per learner (DEFAULT_MAX_ATTEMPTS when omitted; 0 for unlimited) */
+    maxAttempts?: number;
+
+    /** Points deducted per earlier attempt, never below passingScore for a passing answer (DEFAULT_RETRY_PENALTY when omitted; 0 for none) */
+    retryPenalty?: number;
+
+    /** When a learner may see the solution (default after-attempts); a teacher release always reveals it */
+    revealPolicy?: RevealPolicy;
+
+    /** after-attempts: failed attempts before the solution is revealed (default 3) */
+    revealAfterAttempts?: number;
+
+    /** Multi-select multiple-choice scoring (default per-option; all-or-nothing without partial credit) */
+    multiSelectScoring?: MultiSelectScoring;
+
+    /** Ordering scoring (default pairwise; exact without partial credit) */
+    orderingScoring?: OrderingScoring;
+
+    /** Typed answers: exact, normalized (no typo tolerance) or fuzzy (default) */
+    textMatching?: TextMatchMode;
+
+    /** Accept answers that differ only in accents (default: true outside language exercises) */
+    ignoreAccents?: boolean;
+
+    /** Ignore a leading article like "the" or "la" (default: true outside language exercises) */
+    ignoreArticles?: boolean;
+
+    /** Typos still treated as close (default scales with answer length; none for short words and proper nouns) */
+    maxTypos?: number;
+
+    /** Score (0-100) for a close answer (default 50) */
+    closeAnswerCredit?: number;
+
+    /** Accept mathematically equivalent answers: "3, 2" for "x = 2 or x = 3" (default: mathematics only) */
+    mathEquivalence?: boolean;
+
+    /** Translations not close to a reference: judge meaning with a model (default), Lingua, or not at all */
+    translationJudge?: TranslationJudgeMode;
 }
 
+export type MultiSelectScoring = 'all-or-nothing' | 'per-option' | 'penalize-wrong';
+
+export type OrderingScoring = 'exact' | 'position' | 'pairwise';
+
+export type TextMatchMode = 'exact' | 'normalized' | 'fuzzy';
+
+export type TranslationJudgeMode = 'model' | 'lingua' | 'none';
+
+/**
+ * When the solution is revealed to a learner
+ * - after-pass:     once they pass
+ * - after-attempts: once they pass, fail revealAfterAttempts times or run out of attempts
+ * - teacher:        only when a teacher releases it
+ */
+export type RevealPolicy = 'after-pass' | 'after-attempts' | 'teacher';
+
 // =============================================================================
 // CONTENT RATING (Parental Controls)
 // =============================================================================
@@ -540,6 +682,34 @@ export interface ExerciseMetadata {
 
     /** Version for content updates */
     version: number;
+
+    /** Independent check of the answer key (when generated with verifyAnswers) */
+    verification?: AnswerVerification;
+}
+
+/**
+ * Outcome of solving an exercise with a second model and comparing against the answer key
+ * - verified: the verifier's answer scored 100% against the key
+ * - mismatch: the verifier disagreed (the exercise is kept out of exercise pools)
+ * - unverified: the verifier could not be run (no budget, model errors)
+ * - skipped: open-ended type with no single checkable answer
+ */
+export interface AnswerVerification {
+    status: 'verified' | 'mismatch' | 'unverified' | 'skipped';
+
+    /** Model that solved the exercise */
+    model?: string;
+
+    /** Score (0-100) of the verifier's answer graded against the key */
+    agreement?: number;
+
+    /** The verifier's answer, kept when it disagreed */
+    verifierAnswer?: unknown;
+
+    /** Exercises rejected for a mismatch before this one was accepted */
+    regenerated?: number;
+
+    verifiedAt: string;
 }
 
 // =============================================================================
@@ -616,6 +786,12 @@ export interface GenerationOptions {
 
     /** Custom system prompt additions */
     customInstructions?: string;
+
+    /** Ask for multi-select multiple-choice items (several correct options) */
+    multiSelect?: boolean;
+
+    /** Have a second model solve each exercise and check the answer key (costs extra neurons) */
+    verifyAnswers?: boolean;
 }
 
 /**
@@ -633,6 +809,9 @@ export interface GenerateExerciseResponse {
         neuronsUsed?: number;
         cached: boolean;
     };
+
+    /** Exercise id -> signed attempt token, when attempt tokens are configured */
+    attemptTokens?: Record<string, string>;
 }
 
 // =============================================================================
@@ -649,13 +828,16 @@ export interface SubmissionRequest {
     /** User's answer */
     answer: SolutionAnswer;
 
-    /** Time taken in seconds */
-    timeTaken: number;
+    /** Token from /generate or /attempts/start; time on task is measured from it */
+    attemptToken?: string;
 
-    /** Hints used */
-    hintsUsed: number;
+    /** Ignored: time is measured on the server (attempt token or attempt state) */
+    timeTaken?: number;
+
+    /** Ignored: hints are counted by GET /hints (attempt state) */
+    hintsUsed?: number;
 
-    /** User ID (optional for anonymous) */
+    /** Ignored: submissions are recorded for the signed-in user */
     userId?: string;
 }
 
@@ -681,10 +863,142 @@ export interface SubmissionResult {
     /** Show solution? */
     showSolution: boolean;
 
+    /** Multiple-choice: how each option was judged */
+    optionFeedback?: OptionFeedback[];
+
+    /** Ordering: item ids that are out of place */
+    misplacedItems?: string[];
+
+    /** Coding: result of each test case */
+    testResults?: TestCaseResult[];
+
+    /** Long answers and proofs: score and comment for each rubric point or proof step */
+    criteria?: CriterionScore[];
+
+    /** Not graded automatically; a teacher will score the answer */
+    pendingReview?: boolean;
+
+    /** Translations: the learner's words compared with the closest reference */
+    wordDiff?: WordDiffToken[];
+
+    /** Conjugation: result for each subject */
+    forms?: ConjugationFormResult[];
+
+    /** Custom validators: structured, validator-specific feedback */
+    details?: Record<string, unknown>;
+
+    /** Result for each blank, pair, statement, marker, subject, item or visible test case */
+    items?: ItemResult[];
+
+    /** Misconception behind a wrong answer, from solution.commonMistakes or an option's rationale */
+    misconception?: Misconception;
+
+    /** Teacher review: look the grade up with GET /reviews/:reviewId */
+    reviewId?: number;
+
+    /** Attempts and hints recorded for this learner */
+    attempt?: AttemptSummary;
+
+    /** Token for the next attempt, while attempts remain */
+    attemptToken?: string;
+
     /** Suggested next exercises */
     nextExercises?: string[];
 }
 
+/**
+ * A learner's recorded attempts at an exercise, after the current submission
+ */
+export interface AttemptSummary {
+    attempts: number;
+    hintsUsed: number;
+    /** Present when validation.maxAttempts limits attempts */
+    maxAttempts?: number;
+    remaining?: number;
+}
+
+/**
+ * Per-option result for a multiple-choice answer
+ * - correct: right option, picked    - missed: right option, not picked
+ * - wrong: wrong option, picked      - partial: partially correct option, picked
+ * - neutral: option left out that did not need picking
+ */
+export interface OptionFeedback {
+    id: string;
+    selected: boolean;
+    status: 'correct' | 'missed' | 'wrong' | 'partial' | 'neutral';
+}
+
+/**
+ * Result of running a coding answer against one test case.
+ * Hidden test cases report only whether they passed (and the kind of failure).
+ */
+export interface TestCaseResult {
+    index: number;
+    hidden: boolean;
+    passed: boolean;
+    /** Why the test failed: wrong output, an exception, or a sandbox limit */
+    failure?: 'wrong-output' | 'error' | 'time-limit' | 'memory-limit';
+    input?: string;
+    expectedOutput?: string;
+    actualOutput?: string;
+    error?: string;
+}
+
+/**
+ * AI-assisted score for one rubric point (long answers) or logical step (proofs)
+ */
+export interface CriterionScore {
+    criterion: string;
+    /** 0-100: 0 not addressed, 50 partly, 100 fully */
+    score: number;
+    comment: string;
+}
+
+/**
+ * One word of a translation diff: a learner word that matches the reference or not,
+ * or a reference word the learner left out
+ */
+export interface WordDiffToken {
+    text: string;
+    status: 'match' | 'mismatch' | 'missing';
+}
+
+/**
+ * Result for one person of a conjugation answer; `expected` is only given for accent slips
+ */
+export interface ConjugationFormResult {
+    subject: string;
+    status: 'correct' | 'accents' | 'wrong' | 'missing';
+    /** Credit for this form (0-100) */
+    credit: number;
+    given?: string;
+    expected?: string;
+}
+
+/**
+ * Result for one part of an answer
+ */
+export interface ItemResult {
+    /** Blank or statement number (from 1), pair/marker/item id, subject, or test case number */
+    item: string;
+    /** What the part is, e.g. the statement or the left-hand term */
+    label?: string;
+    status: 'correct' | 'close' | 'wrong' | 'missing';
+    given?: string;
+    expected?: string;
+}
+
+/**
+ * Likely misunderstanding behind a wrong answer
+ */
+export interface Misconception {
+    source: 'common-mistake' | 'distractor';
+    /** The learner's answer that revealed it */
+    answer: string;
+    explanation: string;
+}
+
 // =============================================================================
 // SUBJECT-SPECIFIC CONFIGURATION
 // =============================================================================
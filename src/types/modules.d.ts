@@ -0,0 +1,9 @@
+/**
+ * Module declarations for non-TypeScript imports bundled by wrangler
+ */
+
+// Compiled WebAssembly module (wrangler imports .wasm files as WebAssembly.Module)
+declare module '@jitl/quickjs-wasmfile-release-sync/wasm' {
+    const wasmModule: WebAssembly.Module;
+    export default wasmModule;
+}